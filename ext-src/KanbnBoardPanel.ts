@@ -3,6 +3,11 @@ import * as vscode from 'vscode'
 import getNonce from './getNonce'
 import KanbnTaskPanel from './KanbnTaskPanel'
 import KanbnBurndownPanel from './KanbnBurndownPanel'
+import KanbnJournal from './KanbnJournal'
+import KanbnSprints from './KanbnSprints'
+import KanbnGit from './KanbnGit'
+import KanbnTimer from './KanbnTimer'
+import { listTemplates, loadTemplate } from './KanbnTemplates'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 
 const sortByFields: Record<string, string> = {
@@ -20,8 +25,37 @@ const sortByFields: Record<string, string> = {
   Workload: 'workload'
 }
 
+// A named board view, saved in the index options
+interface BoardView {
+  name: string
+  filter?: string
+  hiddenColumns?: string[]
+  sortBy?: {
+    field: string
+    order: 'ascending' | 'descending'
+  }
+  swimlanes?: string
+}
+
+// A work-in-progress limit for a column. Moves that would break a hard limit need to be confirmed.
+interface WipLimit {
+  limit: number
+  hard?: boolean
+}
+
+// WIP limits can be written in the index options as a number (a soft limit) or as an object
+const getWipLimits = (index: any): Record<string, WipLimit> => Object.fromEntries(
+  Object.entries(index.options.wipLimits ?? {}).map(([columnName, wipLimit]: [string, any]) => [
+    columnName,
+    typeof wipLimit === 'number' ? { limit: wipLimit } : wipLimit
+  ])
+)
+
 export default class KanbnBoardPanel {
   private static readonly viewType = 'react'
+  // The board panel that has focus. Every panel's focus changes go through this, so that the 'kanbn.boardFocused'
+  // context doesn't depend on the order in which panels report losing and gaining focus.
+  private static _focusedPanel: KanbnBoardPanel | null = null
   // Maps a kanbn task ID to the KanbnTaskPanel instance
   private readonly openedTaskPanels = new Map<string, KanbnTaskPanel>()
   private readonly _extensionPath: string
@@ -30,7 +64,19 @@ export default class KanbnBoardPanel {
   private readonly _kanbnFolderName: string
   private readonly _kanbn: Kanbn
   private readonly _kanbnBurndownPanel: KanbnBurndownPanel
+  private readonly _kanbnJournal: KanbnJournal
+  private readonly _kanbnSprints: KanbnSprints
+  private readonly _kanbnGit: KanbnGit
+  private readonly _kanbnTimer: KanbnTimer
   private _panel: vscode.WebviewPanel | null = null
+  // The name of a saved view that should be applied the next time the board is updated
+  private _pendingView: string | null = null
+  // Set while a batch of changes is being applied, so that the board is only refreshed once at the end
+  private _batchInProgress = false
+  // The filter and saved view that are applied to the board
+  private _filter: { filter: string, view: string | null } = { filter: '', view: null }
+  private readonly _onDidChangeFilter = new vscode.EventEmitter<{ filter: string, view: string | null }>()
+  public readonly onDidChangeFilter = this._onDidChangeFilter.event
 
   public async show (): Promise<void> {
     if (this._panel == null) {
@@ -39,10 +85,57 @@ export default class KanbnBoardPanel {
     this._panel?.reveal(this.column)
   }
 
-  public showTaskPanel (taskId: string | null, column: string | null = null): void {
+  public get filter (): { filter: string, view: string | null } {
+    return this._filter
+  }
+
+  // True if the board panel is open and currently focused
+  public get active (): boolean {
+    return this._panel?.active ?? false
+  }
+
+  // Record a panel gaining or losing focus. A panel losing focus only clears the context if no other panel has
+  // gained focus since.
+  private static setFocused (panel: KanbnBoardPanel, focused: boolean): void {
+    if (focused) {
+      KanbnBoardPanel._focusedPanel = panel
+    } else if (KanbnBoardPanel._focusedPanel === panel) {
+      KanbnBoardPanel._focusedPanel = null
+    }
+    void vscode.commands.executeCommand('setContext', 'kanbn.boardFocused', KanbnBoardPanel._focusedPanel !== null)
+  }
+
+  // Close the panel and the board's task panels. This is used when the board is no longer tracked.
+  public dispose (): void {
+    for (const taskPanel of [...this.openedTaskPanels.values()]) {
+      taskPanel.dispose()
+    }
+    this._panel?.dispose()
+    this._onDidChangeFilter.dispose()
+  }
+
+  public async applyView (viewName: string): Promise<void> {
+    this._pendingView = viewName
+    await this.show()
+    void this.update()
+  }
+
+  public showTaskPanel (taskId: string | null, column: string | null = null, template: any = null): void {
     let panel: KanbnTaskPanel
     if (taskId == null || !this.openedTaskPanels.has(taskId)) {
-      panel = new KanbnTaskPanel(this._extensionPath, this._workspacePath, this._kanbn, this._kanbnFolderName, taskId, column, this.openedTaskPanels)
+      panel = new KanbnTaskPanel(
+        this._extensionPath,
+        this._workspacePath,
+        this._kanbn,
+        this._kanbnJournal,
+        this._kanbnGit,
+        this._kanbnTimer,
+        this._kanbnFolderName,
+        taskId,
+        column,
+        this.openedTaskPanels,
+        template
+      )
       if (taskId != null) {
         this.openedTaskPanels.set(taskId, panel)
       }
@@ -52,7 +145,32 @@ export default class KanbnBoardPanel {
     void panel.show()
   }
 
+  // Open the task editor for a new task. If the board has any templates, the user can pick one to pre-fill the task.
+  public async addTask (column: string | null = null): Promise<void> {
+    const templates = listTemplates(this._kanbnFolderName)
+    let template: any = null
+    if (templates.length > 0) {
+      const templateName = await vscode.window.showQuickPick(
+        ['Blank task', ...templates],
+        {
+          placeHolder: 'Select a template for the new task',
+          canPickMany: false
+        }
+      )
+      if (templateName === undefined) {
+        return
+      }
+      if (templateName !== 'Blank task') {
+        template = await loadTemplate(this._kanbnFolderName, templateName)
+      }
+    }
+    this.showTaskPanel(null, column, template)
+  }
+
   public async update (): Promise<void> {
+    if (this._batchInProgress) {
+      return
+    }
     let index: any
     try {
       index = await this._kanbn.getIndex()
@@ -77,7 +195,10 @@ export default class KanbnBoardPanel {
       }
       return
     }
-    void this._panel?.webview.postMessage({
+    if (this._panel == null) {
+      return
+    }
+    void this._panel.webview.postMessage({
       type: 'index',
       index,
       tasks,
@@ -86,10 +207,340 @@ export default class KanbnBoardPanel {
       completedColumns: index.options.completedColumns ?? [],
       columnSorting: index.options.columnSorting ?? {},
       customFields: index.options.customFields ?? [],
+      views: index.options.views ?? [],
+      wipLimits: getWipLimits(index),
+      view: this._pendingView,
       dateFormat: this._kanbn.getDateFormat(index),
+      timerTaskId: this._kanbnTimer.timer?.boardLocation === this._kanbnFolderName ? this._kanbnTimer.timer.taskId : null,
       showBurndownButton: vscode.workspace.getConfiguration('kanbn').get('showBurndownButton'),
       showSprintButton: vscode.workspace.getConfiguration('kanbn').get('showSprintButton')
     })
+    this._pendingView = null
+  }
+
+  // Check if moving a task into a column would break the column's hard WIP limit, and if so ask the user to
+  // confirm the move. If the move isn't confirmed, the board is refreshed to put the task back where it was.
+  private async confirmWipLimit (taskId: string, columnName: string): Promise<boolean> {
+    const index = await this._kanbn.getIndex()
+    const wipLimit = getWipLimits(index)[columnName]
+    const columnTasks: string[] = index.columns[columnName] ?? []
+    if (wipLimit?.hard !== true || columnTasks.includes(taskId) || columnTasks.length < wipLimit.limit) {
+      return true
+    }
+    const moveAnyway = await vscode.window.showWarningMessage(
+      `Moving '${taskId}' into '${columnName}' would break its WIP limit of ${wipLimit.limit}.`,
+      { modal: true },
+      'Move anyway'
+    )
+    if (moveAnyway !== 'Move anyway') {
+      void this.update()
+      return false
+    }
+    return true
+  }
+
+  // Prompt for a column's WIP limit and save it in the index options
+  private async setWipLimit (columnName: string): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const wipLimits = getWipLimits(index)
+    const limit = await vscode.window.showInputBox({
+      prompt: `The WIP limit for '${columnName}'. Leave this empty to remove the limit.`,
+      value: wipLimits[columnName] !== undefined ? `${wipLimits[columnName].limit}` : '',
+      validateInput: (text) => {
+        return text === '' || /^[1-9]\d*$/.test(text) ? null : 'The WIP limit must be a positive whole number.'
+      }
+    })
+    if (limit === undefined) {
+      return
+    }
+    if (limit === '') {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete wipLimits[columnName]
+    } else {
+      const limitType = await vscode.window.showQuickPick(
+        [
+          'Soft limit (show a warning)',
+          'Hard limit (confirm moves that break the limit)'
+        ],
+        {
+          placeHolder: 'How should this limit be enforced?',
+          canPickMany: false
+        }
+      )
+      if (limitType === undefined) {
+        return
+      }
+      wipLimits[columnName] = { limit: Number(limit), hard: limitType.startsWith('Hard') }
+    }
+    index.options.wipLimits = wipLimits
+    await this._kanbn.saveIndex(index)
+    void this.update()
+  }
+
+  // Update the field that the board's swimlanes are grouped by (the assigned user, a tag or a custom field)
+  private async moveTaskToLane (taskId: string, field: string, fromLane: string, toLane: string): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const task = await this._kanbn.getTask(taskId)
+    if (field === 'tag') {
+      task.metadata.tags = [
+        ...(task.metadata.tags ?? []).filter((tag: string) => tag !== fromLane),
+        ...(toLane !== '' ? [toLane] : [])
+      ]
+    } else if (toLane === '') {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete task.metadata[field]
+    } else if (field === 'assigned') {
+      task.metadata.assigned = toLane
+    } else {
+      const customField = (index.options.customFields ?? []).find(
+        (customField: { name: string, type: string }) => customField.name === field
+      )
+      if (customField === undefined) {
+        throw new Error(`'${field}' is not a custom field on this board.`)
+      }
+      switch (customField.type) {
+        case 'boolean':
+          task.metadata[field] = true
+          break
+        case 'number':
+          task.metadata[field] = Number(toLane)
+          break
+        case 'date':
+          task.metadata[field] = new Date(toLane)
+          break
+        default:
+          task.metadata[field] = toLane
+      }
+    }
+    await this._kanbnJournal.updateTask(taskId, task)
+  }
+
+  // Apply an action to several tasks at once. Any values that the action needs are prompted for first, then
+  // all changes are made and the board is refreshed once at the end.
+  private async batch (action: string, taskIds: string[], columnName?: string, position?: number): Promise<void> {
+    if (taskIds.length === 0) {
+      return
+    }
+    const taskCount = `${taskIds.length} task${taskIds.length === 1 ? '' : 's'}`
+    let update: ((task: any) => void) | null = null
+    let result = ''
+    switch (action) {
+      case 'move': {
+        if (columnName === undefined) {
+          return
+        }
+        const index = await this._kanbn.getIndex()
+        const wipLimit = getWipLimits(index)[columnName]
+        const columnTasks: string[] = index.columns[columnName] ?? []
+        const newTaskCount = columnTasks.length + taskIds.filter(taskId => !columnTasks.includes(taskId)).length
+        if (wipLimit?.hard === true && newTaskCount > wipLimit.limit && newTaskCount > columnTasks.length) {
+          const moveAnyway = await vscode.window.showWarningMessage(
+            `Moving ${taskCount} into '${columnName}' would break its WIP limit of ${wipLimit.limit}.`,
+            { modal: true },
+            'Move anyway'
+          )
+          if (moveAnyway !== 'Move anyway') {
+            void this.update()
+            return
+          }
+        }
+        result = `Moved ${taskCount} to '${columnName}'.`
+        break
+      }
+      case 'addTag':
+      case 'removeTag': {
+        const tag = await vscode.window.showInputBox({
+          prompt: `The tag to ${action === 'addTag' ? 'add to' : 'remove from'} ${taskCount}`,
+          validateInput: (text) => text.trim() === '' ? 'The tag cannot be empty.' : null
+        })
+        if (tag === undefined) {
+          return
+        }
+        update = action === 'addTag'
+          ? (task) => {
+              const tags: string[] = task.metadata.tags ?? []
+              task.metadata.tags = tags.includes(tag.trim()) ? tags : [...tags, tag.trim()]
+            }
+          : (task) => {
+              task.metadata.tags = (task.metadata.tags ?? []).filter((t: string) => t !== tag.trim())
+            }
+        result = `Updated tags on ${taskCount}.`
+        break
+      }
+      case 'assign': {
+        const assigned = await vscode.window.showInputBox({
+          prompt: `Assign ${taskCount} to. Leave this empty to unassign them.`
+        })
+        if (assigned === undefined) {
+          return
+        }
+        update = (task) => {
+          if (assigned.trim() === '') {
+            delete task.metadata.assigned
+          } else {
+            task.metadata.assigned = assigned.trim()
+          }
+        }
+        result = `Updated the assigned user on ${taskCount}.`
+        break
+      }
+      case 'setDue': {
+        const due = await vscode.window.showInputBox({
+          prompt: `The due date for ${taskCount} (YYYY-MM-DD). Leave this empty to clear the due date.`,
+          validateInput: (text) => text === '' || (/^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(new Date(`${text}T00:00:00`).getTime()))
+            ? null
+            : 'This is not a valid date. Use the format YYYY-MM-DD.'
+        })
+        if (due === undefined) {
+          return
+        }
+        update = (task) => {
+          if (due === '') {
+            delete task.metadata.due
+          } else {
+            // Parse the date as local time, so that it's the same day in every timezone
+            task.metadata.due = new Date(`${due}T00:00:00`)
+          }
+        }
+        result = `Updated the due date on ${taskCount}.`
+        break
+      }
+      case 'archive':
+        result = `Archived ${taskCount}.`
+        break
+      case 'delete': {
+        const confirm = await vscode.window.showWarningMessage(`Delete ${taskCount}?`, { modal: true }, 'Delete')
+        if (confirm !== 'Delete') {
+          return
+        }
+        result = `Deleted ${taskCount}.`
+        break
+      }
+      default:
+        return
+    }
+
+    this._batchInProgress = true
+    try {
+      await this._kanbnJournal.batch(result, async () => {
+        switch (action) {
+          case 'move':
+            // Move each task to the end of the column first, then put the tasks in order at the drop position
+            for (const taskId of taskIds) {
+              await this._kanbnJournal.moveTask(taskId, columnName as string)
+            }
+            if (position !== undefined) {
+              for (const [i, taskId] of taskIds.entries()) {
+                await this._kanbnJournal.moveTask(taskId, columnName as string, position + i)
+              }
+            }
+            break
+          case 'archive':
+            for (const taskId of taskIds) {
+              await this._kanbnJournal.archiveTask(taskId)
+              this.openedTaskPanels.get(taskId)?.dispose()
+            }
+            break
+          case 'delete':
+            for (const taskId of taskIds) {
+              await this._kanbnJournal.deleteTask(taskId)
+              this.openedTaskPanels.get(taskId)?.dispose()
+            }
+            break
+          default:
+            for (const taskId of taskIds) {
+              const task = await this._kanbn.getTask(taskId)
+              update?.(task)
+              await this._kanbnJournal.updateTask(taskId, task)
+            }
+        }
+      })
+    } finally {
+      this._batchInProgress = false
+      void this.update()
+    }
+    if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+      void vscode.window.showInformationMessage(result)
+    }
+  }
+
+  // Prompt for the name, hidden columns and sort order of a view, then save it in the index options
+  private async saveView (view: BoardView): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const views: BoardView[] = index.options.views ?? []
+    const viewName = await vscode.window.showInputBox({
+      placeHolder: 'The view name.',
+      value: view.name ?? '',
+      validateInput: (text) => {
+        return text.length < 1 ? 'The view name cannot be empty.' : null
+      }
+    })
+    if (viewName === undefined) {
+      return
+    }
+    if (viewName !== view.name && views.some(v => v.name === viewName)) {
+      const overwrite = await vscode.window.showWarningMessage(`Replace the existing view '${viewName}'?`, 'Yes', 'No')
+      if (overwrite !== 'Yes') {
+        return
+      }
+    }
+    const hiddenColumns = await vscode.window.showQuickPick(
+      Object.keys(index.columns).map(columnName => ({
+        label: columnName,
+        picked: view.hiddenColumns?.includes(columnName) ?? false
+      })),
+      {
+        placeHolder: 'Select columns to hide in this view...',
+        canPickMany: true
+      }
+    )
+    if (hiddenColumns === undefined) {
+      return
+    }
+    const customFields: string[] = (index.options.customFields ?? []).map(
+      (customField: { name: string, type: string }) => customField.name
+    )
+    const sortBy = await vscode.window.showQuickPick(
+      [
+        'None',
+        ...Object.keys(sortByFields),
+        ...customFields
+      ],
+      {
+        placeHolder: 'Sort tasks in this view by...',
+        canPickMany: false
+      }
+    )
+    if (sortBy === undefined) {
+      return
+    }
+    const newView: BoardView = {
+      name: viewName,
+      filter: view.filter ?? '',
+      hiddenColumns: hiddenColumns.map(item => item.label)
+    }
+    if (view.swimlanes !== undefined && view.swimlanes !== '') {
+      newView.swimlanes = view.swimlanes
+    }
+    if (sortBy !== 'None') {
+      const sortDirection = await vscode.window.showQuickPick(['Ascending', 'Descending'], {
+        placeHolder: 'Sort direction',
+        canPickMany: false
+      })
+      if (sortDirection === undefined) {
+        return
+      }
+      newView.sortBy = {
+        field: sortBy in sortByFields ? sortByFields[sortBy] : sortBy,
+        order: sortDirection === 'Descending' ? 'descending' : 'ascending'
+      }
+    }
+    index.options.views = [
+      ...views.filter(v => v.name !== view.name && v.name !== viewName),
+      newView
+    ]
+    await this._kanbn.saveIndex(index)
+    await this.applyView(viewName)
   }
 
   private async setUpPanel (): Promise<void> {
@@ -122,7 +573,15 @@ export default class KanbnBoardPanel {
 
     // Listen for when the panel is disposed
     // This happens when the user closes the panel or when the panel is closed programatically
-    this._panel.onDidDispose(() => { this._panel = null })
+    this._panel.onDidDispose(() => {
+      this._panel = null
+      KanbnBoardPanel.setFocused(this, false)
+    })
+
+    // Keep track of whether a board has focus, so that the undo and redo keybindings only apply to boards
+    this._panel.onDidChangeViewState((e) => {
+      KanbnBoardPanel.setFocused(this, e.webviewPanel.active)
+    })
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -137,15 +596,95 @@ export default class KanbnBoardPanel {
             void this.update()
             return
 
+          // Remember the filter and view that are applied to the board
+          case 'kanbn.filter':
+            this._filter = { filter: message.filter, view: message.view }
+            this._onDidChangeFilter.fire(this._filter)
+            return
+
           // Open an already existing task in the editor
           case 'kanbn.task':
             this.showTaskPanel(message.taskId, message.columnName)
             return
 
+          // Create and check out a git branch for a task
+          case 'kanbn.startWork':
+            try {
+              await this._kanbnGit.startWork(message.taskId)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(`Couldn't start work on task: ${e.message}`)
+              } else {
+                throw e
+              }
+            }
+            return
+
+          // Start or stop the timer for a task
+          case 'kanbn.toggleTimer':
+            try {
+              await this._kanbnTimer.toggle(this._kanbnFolderName, message.taskId)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(`Couldn't start the timer: ${e.message}`)
+              } else {
+                throw e
+              }
+            }
+            return
+
           // Move a task
           case 'kanbn.move':
             try {
-              await this._kanbn.moveTask(message.task, message.columnName, message.position)
+              if (!await this.confirmWipLimit(message.task, message.columnName)) {
+                return
+              }
+              await this._kanbnJournal.moveTask(message.task, message.columnName, message.position)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
+            return
+
+          // Move a task to a different swimlane, updating the field that the board is grouped by
+          case 'kanbn.moveToLane':
+            try {
+              if (!await this.confirmWipLimit(message.task, message.columnName)) {
+                return
+              }
+              await this._kanbnJournal.batch(`Move '${message.task as string}'`, async () => {
+                await this.moveTaskToLane(message.task, message.field, message.fromLane, message.toLane)
+                await this._kanbnJournal.moveTask(message.task, message.columnName, message.position)
+              })
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
+            return
+
+          // Apply an action to all selected tasks
+          case 'kanbn.batch':
+            try {
+              await this.batch(message.action, message.taskIds, message.columnName, message.position)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
+            return
+
+          // Set or clear a column's WIP limit
+          case 'kanbn.setWipLimit':
+            try {
+              await this.setWipLimit(message.columnName)
             } catch (e) {
               if (e instanceof Error) {
                 void vscode.window.showErrorMessage(e.message)
@@ -157,7 +696,15 @@ export default class KanbnBoardPanel {
 
           // Open a webview for a new task (with no ID)
           case 'kanbn.addTask':
-            this.showTaskPanel(null, message.columnName)
+            try {
+              await this.addTask(message.columnName)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
             return
 
           // Sort a column
@@ -228,23 +775,28 @@ export default class KanbnBoardPanel {
             }
             return
           }
-          // Open a burndown chart
-          case 'kanbn.burndown':
-            this._kanbnBurndownPanel.show()
-            void this.update()
+          // Save the current filter as a named view
+          case 'kanbn.saveView':
+            try {
+              await this.saveView(message.view)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
             return
 
-            // Start a new sprint
-          case 'kanbn.sprint': {
-            // Prompt for a sprint name
-            const newSprintName = await vscode.window.showInputBox({
-              placeHolder: 'The sprint name.'
-            })
-
-            // If the input prompt wasn't cancelled, start a new sprint
-            if (newSprintName !== undefined) {
+          // Delete a saved view
+          case 'kanbn.deleteView': {
+            const deleteView = await vscode.window.showWarningMessage(`Delete view '${String(message.viewName)}'?`, 'Yes', 'No')
+            if (deleteView === 'Yes') {
               try {
-                await this._kanbn.sprint(newSprintName, '', new Date())
+                const index = await this._kanbn.getIndex()
+                index.options.views = (index.options.views ?? []).filter((view: BoardView) => view.name !== message.viewName)
+                await this._kanbn.saveIndex(index)
+                void this.update()
               } catch (e) {
                 if (e instanceof Error) {
                   void vscode.window.showErrorMessage(e.message)
@@ -253,6 +805,26 @@ export default class KanbnBoardPanel {
                 }
               }
             }
+            return
+          }
+
+          // Open a burndown chart
+          case 'kanbn.burndown':
+            this._kanbnBurndownPanel.show()
+            void this.update()
+            return
+
+            // Start, plan or close a sprint
+          case 'kanbn.sprint': {
+            try {
+              await this._kanbnSprints.chooseAction()
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
             void this._kanbnBurndownPanel.update()
           }
         }
@@ -264,7 +836,11 @@ export default class KanbnBoardPanel {
     workspacePath: string,
     kanbn: Kanbn,
     kanbnFolderName: string,
-    kanbnBurndownPanel: KanbnBurndownPanel
+    kanbnBurndownPanel: KanbnBurndownPanel,
+    kanbnJournal: KanbnJournal,
+    kanbnSprints: KanbnSprints,
+    kanbnGit: KanbnGit,
+    kanbnTimer: KanbnTimer
   ) {
     this._extensionPath = extensionPath
     this._workspacePath = workspacePath
@@ -272,6 +848,10 @@ export default class KanbnBoardPanel {
     this.column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One
     this._kanbnFolderName = kanbnFolderName
     this._kanbnBurndownPanel = kanbnBurndownPanel
+    this._kanbnJournal = kanbnJournal
+    this._kanbnSprints = kanbnSprints
+    this._kanbnGit = kanbnGit
+    this._kanbnTimer = kanbnTimer
   }
 
   private _getHtmlForWebview (): string {
@@ -1,8 +1,119 @@
 import * as path from 'path'
 import * as vscode from 'vscode'
 import getNonce from './getNonce'
+import { getCurrentSprint, Sprint } from './KanbnSprints'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 
+const DAY = 24 * 60 * 60 * 1000
+
+// The number of sprints used for the rolling average in the velocity chart
+const VELOCITY_AVERAGE_SPRINTS = 3
+
+// Get the number of tasks in each column, day by day, for a cumulative flow diagram. There is no history of which
+// column a task was in, so each task's created, started and completed dates are used to decide whether it was in
+// one of its board's started or completed columns, or in a column before them.
+const getCumulativeFlowData = (index: any, tasks: any[], from: Date, to: Date): any => {
+  const columns = Object.keys(index.columns)
+  const startedColumns: string[] = index.options.startedColumns ?? []
+  const completedColumns: string[] = index.options.completedColumns ?? []
+  const backlogColumns = columns.filter(column => !startedColumns.includes(column) && !completedColumns.includes(column))
+  const taskColumns: Record<string, string> = {}
+  for (const [column, taskIds] of Object.entries(index.columns as Record<string, string[]>)) {
+    for (const taskId of taskIds) {
+      taskColumns[taskId] = column
+    }
+  }
+
+  // Find the column that a task would have been in for each state. If the task is currently in a column for that
+  // state use its current column, otherwise use the first column for that state.
+  const getStateColumn = (taskId: string, stateColumns: string[]): string | null => {
+    if (stateColumns.includes(taskColumns[taskId])) {
+      return taskColumns[taskId]
+    }
+    return stateColumns[0] ?? null
+  }
+  const getDate = (date: any): number | null => date !== undefined && !isNaN(Date.parse(date)) ? Date.parse(date) : null
+
+  const dataPoints: any[] = []
+  const dayCount = Math.floor((to.getTime() - from.getTime()) / DAY) + 1
+  for (let i = 0; i < dayCount; i++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + i)
+    const endOfDay = new Date(from.getFullYear(), from.getMonth(), from.getDate() + i + 1).getTime() - 1
+    const counts: Record<string, number> = Object.fromEntries(columns.map(column => [column, 0]))
+    for (const task of tasks) {
+      const created = getDate(task.metadata.created)
+      if (created === null || created > endOfDay) {
+        continue
+      }
+      const started = getDate(task.metadata.started)
+      const completed = getDate(task.metadata.completed)
+      let column: string | null = null
+      if (completed !== null && completed <= endOfDay) {
+        column = getStateColumn(task.id, completedColumns)
+      } else if (started !== null && started <= endOfDay) {
+        column = getStateColumn(task.id, startedColumns)
+      }
+      column = column ?? getStateColumn(task.id, backlogColumns) ?? taskColumns[task.id]
+      if (column in counts) {
+        counts[column]++
+      }
+    }
+    dataPoints.push({ x: day, counts })
+  }
+  return { columns, dataPoints }
+}
+
+// Get the committed and completed workload and task counts for every sprint. A sprint lasts until it was closed or
+// until the next sprint starts, and the last sprint is in progress until it is closed. Tasks are committed to a sprint
+// if they were planned for it. For sprints without a plan, tasks are committed if they were started before the sprint
+// ended and weren't already completed when it started.
+const getVelocityData = (index: any, tasks: any[]): any => {
+  const sprints: Sprint[] = index.options.sprints ?? []
+  const now = Date.now()
+  const getDate = (date: any): number | null => date !== undefined && !isNaN(Date.parse(date)) ? Date.parse(date) : null
+  const velocity = sprints.map((sprint, i) => {
+    const start = new Date(sprint.start).getTime()
+    const end = getDate(sprint.closed) ?? (i < sprints.length - 1 ? new Date(sprints[i + 1].start).getTime() : now)
+    const committed = tasks.filter(task => {
+      if (sprint.tasks !== undefined) {
+        return sprint.tasks.includes(task.id)
+      }
+      const started = getDate(task.metadata.started)
+      const completed = getDate(task.metadata.completed)
+      return started !== null && started < end && (completed === null || completed >= start)
+    })
+    const completed = committed.filter(task => {
+      const completed = getDate(task.metadata.completed)
+      return completed !== null && completed < end
+    })
+    const getWorkload = (tasks: any[]): number => tasks.reduce((total: number, task) => total + Number(task.workload ?? 0), 0)
+    return {
+      name: sprint.name,
+      start: new Date(start),
+      end: new Date(end),
+      current: i === sprints.length - 1 && sprint.closed === undefined,
+      committedWorkload: getWorkload(committed),
+      completedWorkload: getWorkload(completed),
+      committedTasks: committed.length,
+      completedTasks: completed.length,
+      averageWorkload: 0,
+      averageTasks: 0
+    }
+  })
+
+  // Average each sprint with the sprints before it. The sprint in progress isn't finished yet, so its average is
+  // taken from the sprints before it, which is what the next sprint's commitment should be based on.
+  velocity.forEach((sprint, i) => {
+    const last = sprint.current ? i : i + 1
+    const previous = velocity.slice(Math.max(0, last - VELOCITY_AVERAGE_SPRINTS), last)
+    if (previous.length > 0) {
+      sprint.averageWorkload = previous.reduce((total, sprint) => total + sprint.completedWorkload, 0) / previous.length
+      sprint.averageTasks = previous.reduce((total, sprint) => total + sprint.completedTasks, 0) / previous.length
+    }
+  })
+  return velocity
+}
+
 export default class KanbnBurndownPanel {
   private static readonly viewType = 'react'
 
@@ -107,32 +218,57 @@ export default class KanbnBurndownPanel {
       return
     }
     if (this._panel != null) {
+      // Sprints with a planned end date are charted from their start date to their end date. If no sprint or date
+      // range has been selected, the sprint in progress is charted.
+      let sprints: string[] | null = null
+      let dates: Date[] | null = null
+      if (this.sprintMode && this.sprint !== '') {
+        const sprint: Sprint | undefined = (index.options.sprints ?? []).find((sprint: Sprint) => sprint.name === this.sprint)
+        if (sprint?.end !== undefined) {
+          dates = [new Date(sprint.start), new Date(sprint.end)]
+        } else {
+          sprints = [this.sprint]
+        }
+      } else if (!this.sprintMode && this.startDate !== '' && this.endDate !== '') {
+        dates = [
+          new Date(Date.parse(this.startDate)),
+          new Date(Date.parse(this.endDate))
+        ]
+      } else {
+        const sprint = getCurrentSprint(index)
+        if (sprint?.end !== undefined) {
+          dates = [new Date(sprint.start), new Date(sprint.end)]
+        }
+      }
+      const burndownData = await this._kanbn.burndown(sprints, dates, null, null, 'auto')
+
+      // Use the same date range as the burndown chart for the cumulative flow diagram
+      const tasks = (await this._kanbn.loadAllTrackedTasks(index)).map((task) => this._kanbn.hydrateTask(index, task))
+      let cumulativeFlowData: any = { columns: Object.keys(index.columns), dataPoints: [] }
+      if (burndownData.series.length > 0) {
+        cumulativeFlowData = getCumulativeFlowData(
+          index,
+          tasks,
+          new Date(burndownData.series[0].from),
+          new Date(burndownData.series[0].to)
+        )
+      }
       void this._panel.webview.postMessage({
         type: 'burndown',
         index,
         dateFormat: this._kanbn.getDateFormat(index),
-        burndownData: await this._kanbn.burndown(
-          (this.sprintMode && this.sprint !== '')
-            ? [this.sprint]
-            : null,
-          (
-            !this.sprintMode &&
-            this.startDate !== '' &&
-            this.endDate !== ''
-          )
-            ? [
-                new Date(Date.parse(this.startDate)),
-                new Date(Date.parse(this.endDate))
-              ]
-            : null,
-          null,
-          null,
-          'auto'
-        )
+        burndownData,
+        cumulativeFlowData,
+        velocityData: getVelocityData(index, tasks)
       })
     }
   }
 
+  // Close the panel. This is used when the board is no longer tracked.
+  public dispose (): void {
+    this._panel?.dispose()
+  }
+
   private constructor (
     extensionPath: string,
     workspacePath: string,
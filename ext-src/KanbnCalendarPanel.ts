@@ -0,0 +1,209 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import getNonce from './getNonce'
+import KanbnBoardPanel from './KanbnBoardPanel'
+import KanbnJournal from './KanbnJournal'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+export default class KanbnCalendarPanel {
+  private static readonly viewType = 'react'
+
+  private readonly column: vscode.ViewColumn
+  private readonly _extensionPath: string
+  private readonly _workspacePath: string
+  private readonly _kanbn: Kanbn
+  private readonly _kanbnFolderName: string
+  private readonly _kanbnBoardPanel: KanbnBoardPanel
+  private readonly _kanbnJournal: KanbnJournal
+  private _panel: vscode.WebviewPanel | null = null
+
+  public show (): void {
+    if (this._panel === null) {
+      this.setUpPanel()
+    }
+    this._panel?.reveal()
+    void this.update()
+  }
+
+  private setUpPanel (): void {
+    // Create and show a new webview panel
+    this._panel = vscode.window.createWebviewPanel(KanbnCalendarPanel.viewType, 'Calendar', this.column, {
+      // Enable javascript in the webview
+      enableScripts: true,
+
+      // Restrict the webview to only loading content from allowed paths
+      localResourceRoots: [
+        vscode.Uri.file(path.join(this._extensionPath, 'build')),
+        vscode.Uri.file(path.join(this._kanbnFolderName, '.kanbn')),
+        vscode.Uri.file(path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist'))
+      ]
+    });
+    (this._panel as any).iconPath = {
+      light: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'calendar_light.svg')),
+      dark: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'calendar_dark.svg'))
+    }
+
+    // Set the webview's title to the kanbn project name
+    void this._kanbn.getIndex().then((index) => {
+      if (this._panel !== null) this._panel.title = index.name
+    })
+
+    // Set the webview's initial html content
+    this._panel.webview.html = this._getHtmlForWebview()
+
+    // Listen for when the panel is disposed
+    // This happens when the user closes the panel or when the panel is closed programatically
+    this._panel.onDidDispose(() => { this._panel = null })
+
+    // Handle messages from the webview
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          // Display error message
+          case 'error':
+            void vscode.window.showErrorMessage(message.text)
+            return
+
+          // Open a task in the editor
+          case 'kanbn.task':
+            this._kanbnBoardPanel.showTaskPanel(message.taskId, message.columnName)
+            return
+
+          // Change a task's due date after it has been dragged to another day
+          case 'kanbn.setDue':
+            try {
+              const task = await this._kanbn.getTask(message.taskId)
+              // Use midnight in local time, so that the task stays on the same day in the calendar
+              task.metadata.due = new Date(`${message.date as string}T00:00:00`)
+              await this._kanbnJournal.updateTask(message.taskId, task)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
+            void this.update()
+            return
+
+          case 'kanbn.updateMe':
+            void this.update()
+        }
+      })
+  }
+
+  public static create (
+    extensionPath: string,
+    workspacePath: string,
+    kanbn: Kanbn,
+    kanbnFolderName: string,
+    kanbnBoardPanel: KanbnBoardPanel,
+    kanbnJournal: KanbnJournal
+  ): KanbnCalendarPanel {
+    const column = (vscode.window.activeTextEditor != null) ? vscode.window.activeTextEditor.viewColumn : undefined
+    return new KanbnCalendarPanel(
+      extensionPath,
+      workspacePath,
+      column ?? vscode.ViewColumn.One,
+      kanbn,
+      kanbnFolderName,
+      kanbnBoardPanel,
+      kanbnJournal
+    )
+  }
+
+  public async update (): Promise<void> {
+    if (this._panel === null) {
+      return
+    }
+    let index: any
+    let tasks: any[]
+    try {
+      index = await this._kanbn.getIndex()
+      tasks = (await this._kanbn.loadAllTrackedTasks(index)).map((task) =>
+        this._kanbn.hydrateTask(index, task)
+      )
+    } catch (error) {
+      if (error instanceof Error) {
+        void vscode.window.showErrorMessage(error.message)
+      } else {
+        throw error
+      }
+      return
+    }
+    void this._panel?.webview.postMessage({
+      type: 'calendar',
+      index,
+      tasks,
+      completedColumns: index.options.completedColumns ?? [],
+      dateFormat: this._kanbn.getDateFormat(index)
+    })
+  }
+
+  // Close the panel. This is used when the board is no longer tracked.
+  public dispose (): void {
+    this._panel?.dispose()
+  }
+
+  private constructor (
+    extensionPath: string,
+    workspacePath: string,
+    column: vscode.ViewColumn,
+    kanbn: Kanbn,
+    kanbnFolderName: string,
+    kanbnBoardPanel: KanbnBoardPanel,
+    kanbnJournal: KanbnJournal
+  ) {
+    this._extensionPath = extensionPath
+    this._workspacePath = workspacePath
+    this._kanbn = kanbn
+    this._kanbnFolderName = kanbnFolderName
+    this._kanbnBoardPanel = kanbnBoardPanel
+    this._kanbnJournal = kanbnJournal
+    this.column = column
+  }
+
+  private _getHtmlForWebview (): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const manifest = require(path.join(this._extensionPath, 'build', 'asset-manifest.json'))
+    const mainScript = manifest.files['main.js']
+    const mainStyle = manifest.files['main.css']
+    if (this._panel === null) {
+      throw new Error('panel is undefined')
+    }
+    const webview = this._panel.webview
+    const scriptUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainScript)))
+
+    const styleUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainStyle)))
+
+    const customStyleUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._kanbnFolderName, '.kanbn', 'board.css')
+    ))
+    const codiconsUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist', 'codicon.css')
+    ))
+
+    // Use a nonce to whitelist which scripts can be run
+    const nonce = getNonce()
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1,shrink-to-fit=no">
+<meta name="theme-color" content="#000000">
+<title>Kanbn Board</title>
+<link rel="stylesheet" type="text/css" href="${styleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${customStyleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${codiconsUri.toString()}">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src vscode-webview-resource: https:; script-src 'nonce-${nonce}'; font-src vscode-webview-resource:; style-src vscode-webview-resource: 'unsafe-inline' http: https: data:;">
+<base href="${webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build'))).toString()}/">
+</head>
+<body>
+<noscript>You need to enable JavaScript to run this app.</noscript>
+<div id="root-calendar"></div>
+<script nonce="${nonce}" src="${scriptUri.toString()}"></script>
+</body>
+</html>`
+  }
+}
@@ -0,0 +1,314 @@
+import * as path from 'path'
+import * as fs from 'fs'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+const DATE_FIELDS = ['created', 'updated', 'started', 'due', 'completed']
+
+// Diagnostic codes, used to find quick fixes for each problem
+type DiagnosticCode =
+  'invalid-index' |
+  'invalid-task' |
+  'missing-task-file' |
+  'duplicate-task' |
+  'untracked-task' |
+  'dangling-relation' |
+  'invalid-date' |
+  'invalid-custom-field'
+
+const isValidDate = (value: any): boolean => !isNaN(new Date(value).getTime())
+
+// Check if a custom field value matches the field's type
+const isValidCustomField = (value: any, type: string): boolean => {
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'number':
+      return typeof value === 'number'
+    case 'string':
+      return typeof value === 'string'
+    case 'date':
+      return (typeof value === 'string' || value instanceof Date) && isValidDate(value)
+    default:
+      return true
+  }
+}
+
+// Get the numbers of the lines in some text that match a condition
+const findLines = (text: string, match: (line: string) => boolean): number[] => text
+  .split(/\r?\n/)
+  .flatMap((line, lineNumber) => match(line) ? [lineNumber] : [])
+
+// Get the related task IDs of the relations in a task file's '## Relations' section, by line number. Relations are
+// written as '- [type task-id](task-id.md)', where the type and the link are optional.
+const findRelationLines = (text: string): Map<number, string> => {
+  const relationLines = new Map<number, string>()
+  let inRelations = false
+  text.split(/\r?\n/).forEach((line, lineNumber) => {
+    if (/^##\s/.test(line)) {
+      inRelations = /^##\s+relations\s*$/i.test(line)
+      return
+    }
+    const match = inRelations ? /^\s*[-*]\s+\[([^\]]*)\](?:\(([^)]*)\))?\s*$/.exec(line) : null
+    if (match === null) {
+      return
+    }
+    const link = match[2]?.trim() ?? ''
+    relationLines.set(
+      lineNumber,
+      link.endsWith('.md') ? path.basename(link, '.md') : match[1].trim().split(/\s+/).pop() ?? ''
+    )
+  })
+  return relationLines
+}
+
+// Get the range of a whole line, or the first line if the line number is unknown
+const lineRange = (text: string, lineNumber: number | undefined): vscode.Range => {
+  const line = lineNumber ?? 0
+  return new vscode.Range(line, 0, line, text.split(/\r?\n/)[line]?.length ?? 0)
+}
+
+// Checks a board's index and task files for problems, and reports them in the problems panel
+export default class KanbnDiagnostics {
+  private readonly _kanbn: Kanbn
+  private readonly _boardLocation: string
+  private readonly _diagnosticCollection: vscode.DiagnosticCollection
+  // The files that currently have problems, so that they can be cleared once the problems are fixed
+  private _uris: vscode.Uri[] = []
+
+  constructor (kanbn: Kanbn, boardLocation: string, diagnosticCollection: vscode.DiagnosticCollection) {
+    this._kanbn = kanbn
+    this._boardLocation = boardLocation
+    this._diagnosticCollection = diagnosticCollection
+  }
+
+  // Clear the board's problems. This is used when the board is no longer tracked.
+  public dispose (): void {
+    for (const uri of this._uris) {
+      this._diagnosticCollection.delete(uri)
+    }
+    this._uris = []
+  }
+
+  public async validate (): Promise<void> {
+    const diagnostics = new Map<string, vscode.Diagnostic[]>()
+    const report = (
+      filePath: string,
+      range: vscode.Range,
+      message: string,
+      severity: vscode.DiagnosticSeverity,
+      code: DiagnosticCode
+    ): void => {
+      const diagnostic = new vscode.Diagnostic(range, message, severity)
+      diagnostic.source = 'kanbn'
+      diagnostic.code = code
+      diagnostics.set(filePath, [...(diagnostics.get(filePath) ?? []), diagnostic])
+    }
+    try {
+      if ((await this._kanbn.initialised()) === true) {
+        await this.check(report)
+      }
+    } finally {
+      for (const uri of this._uris) {
+        this._diagnosticCollection.delete(uri)
+      }
+      this._uris = [...diagnostics.keys()].map(filePath => vscode.Uri.file(filePath))
+      for (const uri of this._uris) {
+        this._diagnosticCollection.set(uri, diagnostics.get(uri.fsPath))
+      }
+    }
+  }
+
+  private async check (
+    report: (
+      filePath: string,
+      range: vscode.Range,
+      message: string,
+      severity: vscode.DiagnosticSeverity,
+      code: DiagnosticCode
+    ) => void
+  ): Promise<void> {
+    const indexPath = path.join(this._boardLocation, '.kanbn', 'index.md')
+    const taskFolder = path.join(this._boardLocation, '.kanbn', 'tasks')
+    const readFile = async (filePath: string): Promise<string> => {
+      try {
+        return await fs.promises.readFile(filePath, 'utf-8')
+      } catch (e) {
+        return ''
+      }
+    }
+
+    // If the index can't be loaded, there's no way to check the tasks
+    const indexText = await readFile(indexPath)
+    let index: any
+    try {
+      index = await this._kanbn.getIndex()
+    } catch (e) {
+      if (e instanceof Error) {
+        report(indexPath, lineRange(indexText, 0), e.message, vscode.DiagnosticSeverity.Error, 'invalid-index')
+        return
+      }
+      throw e
+    }
+
+    let taskFiles: string[] = []
+    if (fs.existsSync(taskFolder)) {
+      taskFiles = (await fs.promises.readdir(taskFolder))
+        .filter(fileName => path.extname(fileName) === '.md')
+        .map(fileName => path.basename(fileName, '.md'))
+    }
+
+    // Check that each task in the index appears once and has a task file
+    const trackedTaskIds = new Set<string>()
+    const taskLines = new Map<string, number[]>()
+    for (const [columnName, taskIds] of Object.entries(index.columns as Record<string, string[]>)) {
+      for (const taskId of taskIds) {
+        if (!taskLines.has(taskId)) {
+          taskLines.set(taskId, findLines(indexText, line => /^\s*-\s/.test(line) && line.includes(`[${taskId}]`)))
+        }
+        const lines = taskLines.get(taskId) ?? []
+        if (trackedTaskIds.has(taskId)) {
+          report(
+            indexPath,
+            lineRange(indexText, lines.shift()),
+            `Task '${taskId}' appears in the index more than once.`,
+            vscode.DiagnosticSeverity.Error,
+            'duplicate-task'
+          )
+          continue
+        }
+        const line = lines.shift()
+        trackedTaskIds.add(taskId)
+        if (!taskFiles.includes(taskId)) {
+          report(
+            indexPath,
+            lineRange(indexText, line),
+            `Task '${taskId}' is in column '${columnName}' but its task file doesn't exist.`,
+            vscode.DiagnosticSeverity.Error,
+            'missing-task-file'
+          )
+        }
+      }
+    }
+
+    // Check for task files that aren't in the index
+    for (const taskId of taskFiles.filter(taskId => !trackedTaskIds.has(taskId))) {
+      const taskPath = path.join(taskFolder, `${taskId}.md`)
+      report(
+        taskPath,
+        lineRange(await readFile(taskPath), 0),
+        `Task '${taskId}' isn't in the index, so it won't appear on the board.`,
+        vscode.DiagnosticSeverity.Warning,
+        'untracked-task'
+      )
+    }
+
+    // Check each task's relations, dates and custom fields
+    const customFields: Array<{ name: string, type: string }> = index.options.customFields ?? []
+    for (const taskId of [...trackedTaskIds].filter(taskId => taskFiles.includes(taskId))) {
+      const taskPath = path.join(taskFolder, `${taskId}.md`)
+      const taskText = await readFile(taskPath)
+      let task: any
+      try {
+        task = await this._kanbn.getTask(taskId)
+      } catch (e) {
+        if (e instanceof Error) {
+          report(taskPath, lineRange(taskText, 0), e.message, vscode.DiagnosticSeverity.Error, 'invalid-task')
+          continue
+        }
+        throw e
+      }
+      const findField = (fieldName: string): number | undefined =>
+        findLines(taskText, line => line.trimStart().startsWith(`${fieldName}:`))[0]
+      const relationLines = [...findRelationLines(taskText).entries()]
+
+      for (const relation of task.relations ?? []) {
+        if (!trackedTaskIds.has(relation.task) && !taskFiles.includes(relation.task)) {
+          report(
+            taskPath,
+            lineRange(taskText, relationLines.find(([, relatedTaskId]) => relatedTaskId === relation.task)?.[0]),
+            `Related task '${relation.task as string}' doesn't exist.`,
+            vscode.DiagnosticSeverity.Warning,
+            'dangling-relation'
+          )
+        }
+      }
+      for (const fieldName of DATE_FIELDS) {
+        const value = task.metadata[fieldName]
+        if (value !== undefined && !isValidDate(value)) {
+          report(
+            taskPath,
+            lineRange(taskText, findField(fieldName)),
+            `'${fieldName}' is not a valid date.`,
+            vscode.DiagnosticSeverity.Error,
+            'invalid-date'
+          )
+        }
+      }
+      for (const customField of customFields) {
+        const value = task.metadata[customField.name]
+        if (value !== undefined && value !== null && !isValidCustomField(value, customField.type)) {
+          report(
+            taskPath,
+            lineRange(taskText, findField(customField.name)),
+            `Custom field '${customField.name}' should be a ${customField.type}.`,
+            vscode.DiagnosticSeverity.Warning,
+            'invalid-custom-field'
+          )
+        }
+      }
+    }
+  }
+}
+
+// Provides quick fixes for the problems found by KanbnDiagnostics
+export class KanbnDiagnosticsActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  public provideCodeActions (
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    // Diagnostics are reported against '<board>/.kanbn/index.md' and '<board>/.kanbn/tasks/<task id>.md'
+    const taskId = path.basename(document.uri.fsPath, '.md')
+    const boardLocation = path.dirname(path.dirname(path.dirname(document.uri.fsPath)))
+
+    const removeLine = (title: string, diagnostic: vscode.Diagnostic): vscode.CodeAction => {
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix)
+      action.edit = new vscode.WorkspaceEdit()
+      action.edit.delete(document.uri, document.lineAt(diagnostic.range.start.line).rangeIncludingLineBreak)
+      action.diagnostics = [diagnostic]
+      action.isPreferred = true
+      return action
+    }
+
+    return context.diagnostics.filter(diagnostic => diagnostic.source === 'kanbn').flatMap(diagnostic => {
+      switch (diagnostic.code as DiagnosticCode) {
+        case 'dangling-relation':
+          // If the relation's line couldn't be found, the problem is reported on the first line, which mustn't be
+          // removed
+          return findRelationLines(document.getText()).has(diagnostic.range.start.line)
+            ? [removeLine('Remove relation', diagnostic)]
+            : []
+        case 'missing-task-file':
+          return [removeLine('Remove task from the index', diagnostic)]
+        case 'duplicate-task':
+          return [removeLine('Remove duplicate task from the index', diagnostic)]
+        case 'untracked-task': {
+          const action = new vscode.CodeAction('Add task to the index', vscode.CodeActionKind.QuickFix)
+          action.command = {
+            command: 'kanbn.addUntrackedTask',
+            title: 'Add task to the index',
+            arguments: [boardLocation, taskId]
+          }
+          action.diagnostics = [diagnostic]
+          action.isPreferred = true
+          return [action]
+        }
+        default:
+          return []
+      }
+    })
+  }
+}
@@ -0,0 +1,307 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+interface CustomField {
+  name: string
+  type: 'boolean' | 'date' | 'number' | 'string'
+}
+
+// The board data that gets exported, which is the same data that the board panel shows
+interface BoardData {
+  index: any
+  tasks: any[]
+  customFields: CustomField[]
+}
+
+type Exporter = (board: BoardData, boardLocation: string, extensionPath: string) => string
+
+const formatDay = (date: any): string => {
+  if (date === undefined || date === null || isNaN(Date.parse(date))) {
+    return ''
+  }
+  const day = new Date(date)
+  return [
+    day.getFullYear(),
+    `${day.getMonth() + 1}`.padStart(2, '0'),
+    `${day.getDate()}`.padStart(2, '0')
+  ].join('-')
+}
+
+const formatCustomField = (customField: CustomField, value: any): string => {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  switch (customField.type) {
+    case 'boolean':
+      return value === true ? 'Yes' : 'No'
+    case 'date':
+      return formatDay(value)
+    default:
+      return `${value as string}`
+  }
+}
+
+// Get the fields that are shown for a task in the Markdown and HTML exports, leaving out any that are empty
+const getTaskFields = (task: any, customFields: CustomField[]): Array<[string, string]> => ([
+  ['Tags', (task.metadata.tags ?? []).join(', ')],
+  ['Assigned', task.metadata.assigned ?? ''],
+  ['Created', formatDay(task.metadata.created)],
+  ['Started', formatDay(task.metadata.started)],
+  ['Due', formatDay(task.metadata.due)],
+  ['Completed', formatDay(task.metadata.completed)],
+  ['Workload', task.workload > 0 ? `${task.workload as number}` : ''],
+  ...customFields.map((customField): [string, string] => [
+    customField.name,
+    formatCustomField(customField, task.metadata[customField.name])
+  ])
+] as Array<[string, string]>).filter(([, value]) => value !== '')
+
+const getColumnTasks = (board: BoardData, columnName: string): any[] => (board.index.columns[columnName] as string[])
+  .map(taskId => board.tasks.find(task => task.id === taskId))
+  .filter(task => task !== undefined)
+
+const exportMarkdown: Exporter = (board) => {
+  const lines: string[] = [`# ${board.index.name as string}`, '']
+  if (board.index.description !== undefined && board.index.description !== '') {
+    lines.push(board.index.description, '')
+  }
+  for (const columnName of Object.keys(board.index.columns)) {
+    const tasks = getColumnTasks(board, columnName)
+    lines.push(`## ${columnName} (${tasks.length})`, '')
+    for (const task of tasks) {
+      lines.push(`### ${task.name as string}`, '')
+      const fields = getTaskFields(task, board.customFields)
+      if (fields.length > 0) {
+        lines.push(...fields.map(([name, value]) => `- **${name}:** ${value}`), '')
+      }
+      if (task.description !== '') {
+        lines.push(task.description, '')
+      }
+      if (task.subTasks.length > 0) {
+        lines.push(
+          ...task.subTasks.map((subTask: any) => `- [${subTask.completed === true ? 'x' : ' '}] ${subTask.text as string}`),
+          ''
+        )
+      }
+    }
+  }
+  return lines.join('\n')
+}
+
+// Quote a CSV cell if it needs to be. Cells that start with a formula character get a leading apostrophe, so that
+// spreadsheets show them as text instead of running them.
+const escapeCsv = (value: string): string => {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const exportCsv: Exporter = (board) => {
+  const headings = [
+    'ID',
+    'Name',
+    'Column',
+    'Description',
+    'Tags',
+    'Assigned',
+    'Created',
+    'Updated',
+    'Started',
+    'Due',
+    'Completed',
+    'Workload',
+    'Progress',
+    'Sub-tasks',
+    'Relations',
+    ...board.customFields.map(customField => customField.name)
+  ]
+  const rows = Object.keys(board.index.columns).flatMap(columnName => getColumnTasks(board, columnName).map(task => [
+    task.id,
+    task.name,
+    columnName,
+    task.description,
+    (task.metadata.tags ?? []).join(', '),
+    task.metadata.assigned ?? '',
+    formatDay(task.metadata.created),
+    formatDay(task.metadata.updated),
+    formatDay(task.metadata.started),
+    formatDay(task.metadata.due),
+    formatDay(task.metadata.completed),
+    `${task.workload as number ?? ''}`,
+    `${task.progress as number ?? ''}`,
+    task.subTasks.length > 0
+      ? `${task.subTasks.filter((subTask: any) => subTask.completed === true).length as number}/${task.subTasks.length as number}`
+      : '',
+    task.relations.map((relation: any) => `${relation.type as string} ${relation.task as string}`.trim()).join(', '),
+    ...board.customFields.map(customField => formatCustomField(customField, task.metadata[customField.name]))
+  ]))
+  return [headings, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n'
+}
+
+const exportJson: Exporter = (board) => JSON.stringify({ index: board.index, tasks: board.tasks }, null, 2)
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// Styles for the exported HTML page, on top of the board's own stylesheet. The page isn't shown inside VS Code, so
+// the theme colours that the board's styles use are given the default light theme values here.
+const htmlStyles = `:root {
+  --vscode-font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  --vscode-font-size: 13px;
+  --vscode-foreground: #616161;
+  --vscode-descriptionForeground: #717171;
+  --vscode-focusBorder: #0090f1;
+  --vscode-editor-background: #ffffff;
+  --vscode-editor-foreground: #000000;
+  --vscode-editorWidget-background: #f3f3f3;
+  --vscode-editorWidget-border: #c8c8c8;
+  --vscode-editorError-foreground: #e51400;
+  --vscode-editorWarning-foreground: #bf8803;
+  --vscode-activityBar-foreground: #ffffff;
+  --vscode-activityBar-inactiveForeground: #ffffff66;
+  --vscode-button-background: #007acc;
+  --vscode-button-foreground: #ffffff;
+  --vscode-button-hoverBackground: #0062a3;
+  --vscode-input-background: #ffffff;
+  --vscode-input-foreground: #616161;
+  --vscode-input-border: #cecece;
+  --vscode-charts-green: #388a34;
+}
+.kanbn-task-description {
+  white-space: pre-wrap;
+}
+.kanbn-task-sub-tasks {
+  margin: 4px 0 0 0;
+  padding-left: 20px;
+}
+.kanbn-export-date {
+  margin-top: 16px;
+  color: var(--vscode-descriptionForeground);
+  font-size: 0.8em;
+}`
+
+// Read the board panel's built stylesheet, so that the exported page looks the same as the board
+const readBoardStyles = (extensionPath: string): string => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const manifest = require(path.join(extensionPath, 'build', 'asset-manifest.json'))
+  return fs.readFileSync(path.join(extensionPath, 'build', manifest.files['main.css']), 'utf-8')
+}
+
+const exportHtml: Exporter = (board, boardLocation, extensionPath) => {
+  const boardCssPath = path.join(boardLocation, '.kanbn', 'board.css')
+  const boardCss = fs.existsSync(boardCssPath) ? fs.readFileSync(boardCssPath, 'utf-8') : ''
+  const completedColumns: string[] = board.index.options.completedColumns ?? []
+  const now = new Date()
+  const renderTask = (task: any, columnName: string): string => {
+    const overdue = task.metadata.due !== undefined &&
+      task.metadata.completed === undefined &&
+      !completedColumns.includes(columnName) &&
+      new Date(task.metadata.due) < now
+    const classNames = [
+      'kanbn-task',
+      `kanbn-task-column-${paramCase(columnName) as string}`,
+      overdue ? 'kanbn-task-overdue' : null,
+      task.metadata.completed !== undefined ? 'kanbn-task-completed' : null
+    ].filter(className => className !== null).join(' ')
+    const fields = getTaskFields(task, board.customFields).filter(([name]) => name !== 'Tags')
+    return [
+      `<div class="${classNames}">`,
+      `<div class="kanbn-task-data kanbn-task-data-name">${escapeHtml(task.name)}</div>`,
+      (task.metadata.tags ?? []).length > 0
+        ? `<div class="kanbn-task-data kanbn-task-data-tags">${(task.metadata.tags as string[]).map(tag =>
+            `<span class="kanbn-task-tag kanbn-task-tag-${paramCase(tag) as string}">${escapeHtml(tag)}</span>`
+          ).join('')}</div>`
+        : '',
+      ...fields.map(([name, value]) =>
+        `<div class="kanbn-task-data kanbn-task-data-${paramCase(name) as string}"><span class="kanbn-task-data-label">${escapeHtml(name)}:</span> ${escapeHtml(value)}</div>`
+      ),
+      task.description !== ''
+        ? `<div class="kanbn-task-data kanbn-task-description">${escapeHtml(task.description)}</div>`
+        : '',
+      task.subTasks.length > 0
+        ? `<ul class="kanbn-task-data kanbn-task-sub-tasks">${(task.subTasks as any[]).map((subTask) =>
+            `<li>${subTask.completed === true ? '&#9745;' : '&#9744;'} ${escapeHtml(subTask.text)}</li>`
+          ).join('')}</ul>`
+        : '',
+      '</div>'
+    ].filter(line => line !== '').join('\n')
+  }
+  const columns = Object.keys(board.index.columns).map(columnName => {
+    const tasks = getColumnTasks(board, columnName)
+    return [
+      `<div class="kanbn-column kanbn-column-${paramCase(columnName) as string}">`,
+      `<h2 class="kanbn-column-name">${escapeHtml(columnName)}<span class="kanbn-column-count">(${tasks.length})</span></h2>`,
+      '<div class="kanbn-column-task-list">',
+      ...tasks.map(task => renderTask(task, columnName)),
+      '</div>',
+      '</div>'
+    ].join('\n')
+  })
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${escapeHtml(board.index.name)}</title>
+<style>
+${readBoardStyles(extensionPath)}
+</style>
+<style>
+${htmlStyles}
+</style>
+<style>
+${boardCss}
+</style>
+</head>
+<body class="vscode-light">
+<div class="kanbn-header">
+<h1 class="kanbn-header-name">${escapeHtml(board.index.name)}</h1>
+</div>
+<div class="kanbn-board">
+${columns.join('\n')}
+</div>
+<p class="kanbn-export-date">Exported ${formatDay(now)}</p>
+</body>
+</html>
+`
+}
+
+const exporters: Record<string, { extension: string, exporter: Exporter }> = {
+  Markdown: { extension: 'md', exporter: exportMarkdown },
+  CSV: { extension: 'csv', exporter: exportCsv },
+  JSON: { extension: 'json', exporter: exportJson },
+  HTML: { extension: 'html', exporter: exportHtml }
+}
+
+// Export a board to a file in a format picked by the user
+export const exportBoard = async (kanbn: Kanbn, boardLocation: string, extensionPath: string): Promise<void> => {
+  const format = await vscode.window.showQuickPick(Object.keys(exporters), {
+    placeHolder: 'Select a format to export the board to',
+    canPickMany: false
+  })
+  if (format === undefined) {
+    return
+  }
+  const { extension, exporter } = exporters[format]
+
+  const index = await kanbn.getIndex()
+  const tasks = (await kanbn.loadAllTrackedTasks(index)).map((task) => kanbn.hydrateTask(index, task))
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(boardLocation, `${paramCase(index.name) as string}.${extension}`)),
+    filters: { [format]: [extension] }
+  })
+  if (uri === undefined) {
+    return
+  }
+  await fs.promises.writeFile(
+    uri.fsPath,
+    exporter({ index, tasks, customFields: index.options.customFields ?? [] }, boardLocation, extensionPath),
+    'utf-8'
+  )
+  void vscode.window.showInformationMessage(`Exported board '${index.name as string}' to ${path.basename(uri.fsPath)}.`)
+}
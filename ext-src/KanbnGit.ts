@@ -0,0 +1,187 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { execFile } from 'child_process'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import KanbnJournal from './KanbnJournal'
+
+// The task that the current branch is for
+export interface CurrentTask {
+  id: string
+  name: string
+}
+
+// Run a git command and return its output
+const git = async (cwd: string, args: string[]): Promise<string> => await new Promise((resolve, reject) => {
+  execFile('git', args, { cwd }, (error, stdout, stderr) => {
+    if (error !== null) {
+      reject(new Error(stderr.trim() !== '' ? stderr.trim() : error.message))
+      return
+    }
+    resolve(stdout.trim())
+  })
+})
+
+const getBranchPrefix = (): string => vscode.workspace.getConfiguration('kanbn').get<string>('gitBranchPrefix') ?? 'task/'
+
+// Links tasks to git branches in the repository that a board is in. Branches are named from the task ID, e.g.
+// 'task/fix-login-timeout'.
+export default class KanbnGit {
+  private readonly _kanbn: Kanbn
+  private readonly _boardLocation: string
+  private readonly _kanbnJournal: KanbnJournal
+  private readonly _onDidChangeCurrentTask = new vscode.EventEmitter<CurrentTask | null>()
+  public readonly onDidChangeCurrentTask = this._onDidChangeCurrentTask.event
+  // The root of the board's repository. This is undefined until it has been looked up, and null if the board isn't
+  // in a repository.
+  private _repository: string | null | undefined = undefined
+  private _currentTask: CurrentTask | null = null
+  // Merged branches that the user has already been asked about, so that they aren't asked again
+  private readonly _promptedBranches = new Set<string>()
+  // The watcher for the repository's branches, created the first time the board is watched
+  private _watcher: vscode.FileSystemWatcher | null = null
+
+  constructor (kanbn: Kanbn, boardLocation: string, kanbnJournal: KanbnJournal) {
+    this._kanbn = kanbn
+    this._boardLocation = boardLocation
+    this._kanbnJournal = kanbnJournal
+  }
+
+  public get currentTask (): CurrentTask | null {
+    return this._currentTask
+  }
+
+  // Watch the repository for branches being checked out, committed to or merged
+  public async watch (subscriptions: vscode.Disposable[]): Promise<void> {
+    const repository = await this.getRepository()
+    if (repository === null || this._watcher !== null) {
+      return
+    }
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.join(repository, '.git')), '{HEAD,refs/heads/**}')
+    )
+    this._watcher = watcher
+    subscriptions.push(watcher)
+    watcher.onDidChange(() => { void this.update() })
+    watcher.onDidCreate(() => { void this.update() })
+    watcher.onDidDelete(() => { void this.update() })
+    await this.update()
+  }
+
+  // Create and check out a branch for a task, and move the task into the board's first started column
+  public async startWork (taskId: string): Promise<void> {
+    const repository = await this.getRepository()
+    if (repository === null) {
+      throw new Error('This board isn\'t in a git repository.')
+    }
+    const branch = `${getBranchPrefix()}${taskId}`
+    const exists = (await git(repository, ['branch', '--list', branch])) !== ''
+    await git(repository, exists ? ['checkout', branch] : ['checkout', '-b', branch])
+
+    const index = await this._kanbn.getIndex()
+    const startedColumns: string[] = index.options.startedColumns ?? []
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    const columnName = Object.keys(index.columns).find(columnName => index.columns[columnName].includes(taskId))
+    if (
+      startedColumns.length > 0 &&
+      columnName !== undefined &&
+      !startedColumns.includes(columnName) &&
+      !completedColumns.includes(columnName)
+    ) {
+      await this._kanbnJournal.moveTask(taskId, startedColumns[0])
+    }
+    void vscode.window.showInformationMessage(`${exists ? 'Switched to' : 'Created'} branch '${branch}'.`)
+    await this.update()
+  }
+
+  // Check which task the current branch is for, and whether any task branches have been merged
+  public async update (): Promise<void> {
+    const repository = await this.getRepository()
+    if (repository === null) {
+      return
+    }
+    let branch: string
+    let index: any
+    try {
+      branch = await git(repository, ['rev-parse', '--abbrev-ref', 'HEAD'])
+      index = await this._kanbn.getIndex()
+    } catch (e) {
+      return
+    }
+    const taskId = this.getTaskId(branch)
+    let currentTask: CurrentTask | null = null
+    if (taskId !== null && Object.values(index.columns as Record<string, string[]>).some(taskIds => taskIds.includes(taskId))) {
+      currentTask = { id: taskId, name: (await this._kanbn.getTask(taskId)).name }
+    }
+    if (currentTask?.id !== this._currentTask?.id || currentTask?.name !== this._currentTask?.name) {
+      this._currentTask = currentTask
+      this._onDidChangeCurrentTask.fire(currentTask)
+    }
+    await this.checkMergedBranches(repository, branch, index)
+  }
+
+  // Offer to move tasks into a completed column once their branch has been merged into the current branch
+  private async checkMergedBranches (repository: string, currentBranch: string, index: any): Promise<void> {
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    if (completedColumns.length === 0) {
+      return
+    }
+    const mergedBranches = (await git(repository, ['for-each-ref', '--merged', 'HEAD', '--format=%(refname:short)', 'refs/heads']))
+      .split('\n')
+      .filter(branch => branch !== '' && branch !== currentBranch)
+    for (const branch of mergedBranches) {
+      const taskId = this.getTaskId(branch)
+      if (taskId === null) {
+        continue
+      }
+      const columnName = Object.keys(index.columns).find(columnName => index.columns[columnName].includes(taskId))
+      if (columnName === undefined || completedColumns.includes(columnName)) {
+        continue
+      }
+
+      // A new branch is always 'merged' into the branch it was created from, so only ask about branches that have
+      // been committed to since they were created
+      const reflog = await git(repository, ['reflog', 'show', '--format=%H', `refs/heads/${branch}`]).catch(() => '')
+      if (reflog.split('\n').filter(line => line !== '').length < 2 || this._promptedBranches.has(branch)) {
+        continue
+      }
+      this._promptedBranches.add(branch)
+      const task = await this._kanbn.getTask(taskId)
+
+      // Don't wait for an answer, so that updates aren't held up while the message is open
+      void vscode.window.showInformationMessage(
+        `Branch '${branch}' has been merged into '${currentBranch}'. Move task '${task.name as string}' to a completed column?`,
+        ...completedColumns
+      ).then(async moveTo => {
+        if (moveTo === undefined) {
+          return
+        }
+        try {
+          await this._kanbnJournal.moveTask(taskId, moveTo)
+        } catch (e) {
+          if (e instanceof Error) {
+            void vscode.window.showErrorMessage(`Couldn't move task '${task.name as string}': ${e.message}`)
+          } else {
+            throw e
+          }
+        }
+      })
+    }
+  }
+
+  // Get the ID of the task that a branch is for, or null if the branch isn't a task branch
+  private getTaskId (branch: string): string | null {
+    const prefix = getBranchPrefix()
+    return branch.startsWith(prefix) && branch.length > prefix.length ? branch.slice(prefix.length) : null
+  }
+
+  private async getRepository (): Promise<string | null> {
+    if (this._repository === undefined) {
+      try {
+        this._repository = await git(this._boardLocation, ['rev-parse', '--show-toplevel'])
+      } catch (e) {
+        this._repository = null
+      }
+    }
+    return this._repository
+  }
+}
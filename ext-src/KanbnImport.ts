@@ -0,0 +1,362 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+// A task read from an import file, before it is created on the board. If the column is null, the task goes in the
+// board's first column.
+interface ImportedTask {
+  name: string
+  description: string
+  column: string | null
+  metadata: Record<string, any>
+  subTasks: Array<{ text: string, completed: boolean }>
+  comments: Array<{ author: string, date: Date, text: string }>
+}
+
+interface CustomField {
+  name: string
+  type: 'boolean' | 'date' | 'number' | 'string'
+}
+
+const parseDate = (date: any): Date | undefined => {
+  if (date === undefined || date === null || date === '' || isNaN(Date.parse(date))) {
+    return undefined
+  }
+  return new Date(date)
+}
+
+// Remove metadata properties that weren't set, so that they aren't written to the task file
+const cleanMetadata = (metadata: Record<string, any>): Record<string, any> => Object.fromEntries(
+  Object.entries(metadata).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+)
+
+// Get sub-tasks from Markdown task list items, e.g. "- [x] Write the tests"
+const parseTaskList = (text: string): Array<{ text: string, completed: boolean }> => [
+  ...text.matchAll(/^\s*[-*] \[([ xX])\] (.+)$/gm)
+].map(match => ({ text: match[2].trim(), completed: match[1] !== ' ' }))
+
+// Trello board exports have lists, cards, checklists and members. Archived lists and cards are left out.
+const isTrelloExport = (data: any): boolean => Array.isArray(data?.lists) && Array.isArray(data?.cards)
+
+const readTrelloExport = (data: any): ImportedTask[] => {
+  const lists = new Map<string, any>(data.lists.map((list: any) => [list.id, list]))
+  const members = new Map<string, any>((data.members ?? []).map((member: any) => [member.id, member]))
+  const checklists: any[] = data.checklists ?? []
+  const comments: any[] = (data.actions ?? []).filter((action: any) => action.type === 'commentCard')
+  return data.cards
+    .filter((card: any) => card.closed !== true && lists.get(card.idList)?.closed !== true)
+    .sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0))
+    .map((card: any): ImportedTask => {
+      const assigned = (card.idMembers ?? []).map((memberId: string) => members.get(memberId)).find((member: any) => member !== undefined)
+      return {
+        name: card.name,
+        description: card.desc ?? '',
+        column: lists.get(card.idList)?.name ?? null,
+        metadata: cleanMetadata({
+          // Trello IDs start with the time that the card was created
+          created: new Date(parseInt(card.id.substring(0, 8), 16) * 1000),
+          due: parseDate(card.due),
+          completed: card.dueComplete === true ? parseDate(card.dateLastActivity) : undefined,
+          assigned: assigned?.fullName ?? assigned?.username,
+          tags: (card.labels ?? []).map((label: any) => label.name !== '' ? label.name : label.color).filter((tag: any) => tag !== undefined)
+        }),
+        subTasks: checklists
+          .filter(checklist => checklist.idCard === card.id)
+          .flatMap(checklist => [...checklist.checkItems].sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0)))
+          .map((item: any) => ({ text: item.name, completed: item.state === 'complete' })),
+        comments: comments
+          .filter(action => action.data?.card?.id === card.id)
+          .map(action => ({
+            author: action.memberCreator?.fullName ?? action.memberCreator?.username ?? '',
+            date: new Date(action.date),
+            text: action.data.text
+          }))
+      }
+    })
+}
+
+// GitHub issue dumps are arrays of issues, either from the REST API or from "gh issue list --json". Pull requests are
+// left out. Open issues go in the first column and closed issues go in the last completed column.
+const isGitHubExport = (data: any): boolean => Array.isArray(data) && data.every(
+  (issue: any) => typeof issue?.title === 'string' && issue.number !== undefined
+)
+
+const readGitHubExport = (data: any[], completedColumn: string): ImportedTask[] => data
+  .filter(issue => issue.pull_request === undefined)
+  .map((issue): ImportedTask => {
+    const closed = `${issue.state as string}`.toLowerCase() === 'closed'
+    const assignee = issue.assignees?.[0] ?? issue.assignee
+    const body: string = issue.body ?? ''
+    return {
+      name: issue.title,
+      description: body,
+      column: closed ? completedColumn : null,
+      metadata: cleanMetadata({
+        created: parseDate(issue.created_at ?? issue.createdAt),
+        completed: closed ? parseDate(issue.closed_at ?? issue.closedAt) : undefined,
+        due: parseDate(issue.milestone?.due_on ?? issue.milestone?.dueOn),
+        assigned: assignee?.login,
+        tags: (issue.labels ?? []).map((label: any) => typeof label === 'string' ? label : label.name)
+      }),
+      subTasks: parseTaskList(body),
+      comments: Array.isArray(issue.comments)
+        ? issue.comments.map((comment: any) => ({
+          author: comment.author?.login ?? comment.user?.login ?? '',
+          date: new Date(comment.createdAt ?? comment.created_at),
+          text: comment.body
+        }))
+        : []
+    }
+  })
+
+// Parse CSV text into rows of cells. Cells can be quoted, and quoted cells can contain commas, quotes and line breaks.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        cell += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    } else {
+      cell += c
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    rows.push([...row, cell])
+  }
+  return rows.filter(row => row.some(cell => cell.trim() !== ''))
+}
+
+// The task fields that CSV columns can be mapped to
+const csvFields = ['Name', 'Description', 'Column', 'Tags', 'Assigned', 'Created', 'Started', 'Due', 'Completed', 'Sub-tasks']
+
+// Ask which CSV column should be used for each task field. Each field is mapped to a column with the same name to
+// begin with, and the user can change any of the mappings before continuing. Returns null if the import was
+// cancelled.
+const mapCsvColumns = async (headings: string[], customFields: CustomField[]): Promise<Map<string, number> | null> => {
+  const fields = [...csvFields, ...customFields.map(customField => customField.name)]
+  const mapping = new Map<string, number>()
+  for (const field of fields) {
+    const column = headings.findIndex(heading => heading.trim().toLowerCase() === field.toLowerCase())
+    if (column !== -1) {
+      mapping.set(field, column)
+    }
+  }
+  while (true) {
+    const items = [
+      ...mapping.has('Name') ? [{ label: 'Continue', field: null }] : [],
+      ...fields.map(field => ({
+        label: field,
+        description: mapping.has(field) ? `from column '${headings[mapping.get(field) as number]}'` : 'not imported',
+        field
+      }))
+    ]
+    const item = await vscode.window.showQuickPick(items, {
+      placeHolder: mapping.has('Name')
+        ? 'Select a task field to change which CSV column it is imported from, or continue'
+        : 'Select the CSV column that contains task names'
+    })
+    if (item === undefined) {
+      return null
+    }
+    if (item.field === null) {
+      return mapping
+    }
+    const column = await vscode.window.showQuickPick(
+      ['Don\'t import', ...headings.map((heading, i) => `${i + 1}: ${heading}`)],
+      { placeHolder: `Select the CSV column for the task's ${item.field.toLowerCase()}` }
+    )
+    if (column === 'Don\'t import') {
+      mapping.delete(item.field)
+    } else if (column !== undefined) {
+      mapping.set(item.field, Number(column.split(':')[0]) - 1)
+    }
+  }
+}
+
+const parseCustomFieldValue = (customField: CustomField, value: string): any => {
+  if (value.trim() === '') {
+    return undefined
+  }
+  switch (customField.type) {
+    case 'boolean':
+      return ['yes', 'true', '1', 'x'].includes(value.trim().toLowerCase())
+    case 'number':
+      return isNaN(Number(value)) ? undefined : Number(value)
+    case 'date':
+      return parseDate(value)
+    default:
+      return value
+  }
+}
+
+const readCsvRows = (rows: string[][], mapping: Map<string, number>, customFields: CustomField[]): ImportedTask[] => {
+  const get = (row: string[], field: string): string => mapping.has(field) ? (row[mapping.get(field) as number] ?? '').trim() : ''
+  const splitList = (text: string, separator: RegExp): string[] => text.split(separator).map(item => item.trim()).filter(item => item !== '')
+  return rows
+    .filter(row => get(row, 'Name') !== '')
+    .map((row): ImportedTask => {
+      // Sub-tasks can be a Markdown task list, or a list separated by semicolons or line breaks
+      const subTasksText = get(row, 'Sub-tasks')
+      const subTasks = parseTaskList(subTasksText).length > 0
+        ? parseTaskList(subTasksText)
+        : splitList(subTasksText, /[;\n]/).map(text => ({ text, completed: false }))
+      return {
+        name: get(row, 'Name'),
+        description: get(row, 'Description'),
+        column: get(row, 'Column') !== '' ? get(row, 'Column') : null,
+        metadata: cleanMetadata({
+          created: parseDate(get(row, 'Created')),
+          started: parseDate(get(row, 'Started')),
+          due: parseDate(get(row, 'Due')),
+          completed: parseDate(get(row, 'Completed')),
+          assigned: get(row, 'Assigned') !== '' ? get(row, 'Assigned') : undefined,
+          tags: splitList(get(row, 'Tags'), /[,;]/),
+          ...Object.fromEntries(customFields.map(customField => [
+            customField.name,
+            parseCustomFieldValue(customField, get(row, customField.name))
+          ]))
+        }),
+        subTasks,
+        comments: []
+      }
+    })
+}
+
+// Read tasks from a Trello board export, a GitHub issues dump or a CSV file. Returns null if the import was cancelled.
+const readImportFile = async (filePath: string, index: any): Promise<ImportedTask[] | null> => {
+  const text = await fs.promises.readFile(filePath, 'utf-8')
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    const [headings, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+    if (headings === undefined) {
+      return []
+    }
+    const customFields: CustomField[] = index.options.customFields ?? []
+    const mapping = await mapCsvColumns(headings, customFields)
+    return mapping === null ? null : readCsvRows(rows, mapping, customFields)
+  }
+  const data = JSON.parse(text)
+  if (isTrelloExport(data)) {
+    return readTrelloExport(data)
+  }
+  if (isGitHubExport(data)) {
+    const columnNames = Object.keys(index.columns)
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    return readGitHubExport(data, completedColumns[completedColumns.length - 1] ?? columnNames[columnNames.length - 1])
+  }
+  throw new Error('This file isn\'t a Trello board export or a list of GitHub issues.')
+}
+
+// Import tasks into a board. The tasks are shown in a preview so that the user can pick which ones to import, then
+// any missing columns are created and the tasks are added to the board.
+export const importTasks = async (kanbn: Kanbn): Promise<void> => {
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Import',
+    filters: { 'Trello, GitHub or CSV export': ['json', 'csv'] }
+  })
+  if (files === undefined || files.length === 0) {
+    return
+  }
+  let index = await kanbn.getIndex()
+  const importedTasks = await readImportFile(files[0].fsPath, index)
+  if (importedTasks === null) {
+    return
+  }
+  if (importedTasks.length === 0) {
+    void vscode.window.showInformationMessage('There are no tasks to import in this file.')
+    return
+  }
+
+  // Preview the tasks, and show which columns will be created
+  const firstColumn = Object.keys(index.columns)[0]
+  const newColumns = [...new Set(importedTasks.map(task => task.column ?? firstColumn))]
+    .filter(columnName => !(columnName in index.columns))
+  const picked = await vscode.window.showQuickPick(
+    importedTasks.map((task, i) => ({
+      label: task.name,
+      description: `${task.column ?? firstColumn}${newColumns.includes(task.column ?? firstColumn) ? ' (new column)' : ''}`,
+      detail: [
+        (task.metadata.tags ?? []).length > 0 ? `Tags: ${(task.metadata.tags as string[]).join(', ')}` : null,
+        task.subTasks.length > 0 ? `${task.subTasks.length} sub-task${task.subTasks.length === 1 ? '' : 's'}` : null,
+        task.comments.length > 0 ? `${task.comments.length} comment${task.comments.length === 1 ? '' : 's'}` : null
+      ].filter(detail => detail !== null).join(', '),
+      picked: true,
+      task: i
+    })),
+    {
+      placeHolder: newColumns.length > 0
+        ? `Select the tasks to import. These columns will be created: ${newColumns.join(', ')}`
+        : 'Select the tasks to import',
+      canPickMany: true,
+      matchOnDescription: true
+    }
+  )
+  if (picked === undefined || picked.length === 0) {
+    return
+  }
+  const tasks = picked.map(item => importedTasks[item.task])
+
+  // Create any columns that the tasks need
+  const missingColumns = [...new Set(tasks.map(task => task.column ?? firstColumn))]
+    .filter(columnName => !(columnName in index.columns))
+  if (missingColumns.length > 0) {
+    for (const columnName of missingColumns) {
+      index.columns[columnName] = []
+    }
+    await kanbn.saveIndex(index)
+    index = await kanbn.getIndex()
+  }
+
+  // Task IDs come from task names, so tasks with a name that's already taken get a number added to their name
+  const taskIds = new Set<string>([
+    ...Object.values(index.columns as Record<string, string[]>).flat(),
+    ...await kanbn.listArchivedTasks()
+  ])
+  for (const task of tasks) {
+    let name = task.name
+    for (let i = 2; taskIds.has(paramCase(name)); i++) {
+      name = `${task.name} (${i})`
+    }
+    taskIds.add(paramCase(name))
+    await kanbn.createTask(
+      {
+        name,
+        description: task.description,
+        metadata: task.metadata,
+        subTasks: task.subTasks,
+        relations: [],
+        comments: task.comments
+      },
+      task.column ?? firstColumn
+    )
+  }
+  void vscode.window.showInformationMessage(
+    `Imported ${tasks.length} task${tasks.length === 1 ? '' : 's'}${
+      missingColumns.length > 0 ? ` and created column${missingColumns.length === 1 ? '' : 's'} ${missingColumns.map(name => `'${name}'`).join(', ')}` : ''
+    }.`
+  )
+}
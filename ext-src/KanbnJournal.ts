@@ -0,0 +1,180 @@
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+// A change to a board that can be reversed, along with the change that puts it back again
+interface Operation {
+  undo: () => Promise<void>
+  redo: () => Promise<void>
+}
+
+// An entry in the journal. Batch changes are recorded as a single entry containing several operations.
+interface JournalEntry {
+  description: string
+  operations: Operation[]
+}
+
+// Records the inverse of each change that is made to a board, so that changes can be undone and redone.
+// Mutations should go through the journal instead of calling the Kanbn API directly.
+export default class KanbnJournal {
+  private readonly _kanbn: Kanbn
+  private readonly _undoStack: JournalEntry[] = []
+  private readonly _redoStack: JournalEntry[] = []
+  // Operations recorded while a batch is in progress
+  private _batch: Operation[] | null = null
+
+  constructor (kanbn: Kanbn) {
+    this._kanbn = kanbn
+  }
+
+  // Run a function that makes several changes, and record them as a single journal entry
+  public async batch (description: string, changes: () => Promise<void>): Promise<void> {
+    if (this._batch !== null) {
+      await changes()
+      return
+    }
+    const operations: Operation[] = []
+    this._batch = operations
+    try {
+      await changes()
+    } finally {
+      this._batch = null
+      if (operations.length > 0) {
+        this.push({ description, operations })
+      }
+    }
+  }
+
+  public async moveTask (taskId: string, columnName: string, position: number | null = null): Promise<void> {
+    const [previousColumn, previousPosition] = await this.findTask(taskId)
+    await this._kanbn.moveTask(taskId, columnName, position)
+    const [newColumn, newPosition] = await this.findTask(taskId)
+    this.record(`Move '${taskId}'`, {
+      undo: async () => { await this._kanbn.moveTask(taskId, previousColumn, previousPosition) },
+      redo: async () => { await this._kanbn.moveTask(taskId, newColumn, newPosition) }
+    })
+  }
+
+  // Update a task. The task ID will change if the task has been renamed.
+  public async updateTask (taskId: string, taskData: any, columnName: string | null = null): Promise<void> {
+    const previousTask = await this._kanbn.getTask(taskId)
+    const [previousColumn] = await this.findTask(taskId)
+    await this._kanbn.updateTask(taskId, taskData, columnName)
+    const newTaskId: string = taskData.id ?? taskId
+    const newTask = await this._kanbn.getTask(newTaskId)
+    const [newColumn] = await this.findTask(newTaskId)
+    this.record(`Update '${taskId}'`, {
+      undo: async () => { await this._kanbn.updateTask(newTaskId, { ...previousTask, id: taskId }, previousColumn) },
+      redo: async () => { await this._kanbn.updateTask(taskId, { ...newTask, id: newTaskId }, newColumn) }
+    })
+  }
+
+  public async archiveTask (taskId: string): Promise<void> {
+    const [column, position] = await this.findTask(taskId)
+    await this._kanbn.archiveTask(taskId)
+    this.record(`Archive '${taskId}'`, {
+      undo: async () => {
+        await this._kanbn.restoreTask(taskId, column)
+        await this._kanbn.moveTask(taskId, column, position)
+      },
+      redo: async () => { await this._kanbn.archiveTask(taskId) }
+    })
+  }
+
+  public async restoreTask (taskId: string, columnName: string | null = null): Promise<void> {
+    await this._kanbn.restoreTask(taskId, columnName)
+    const [column, position] = await this.findTask(taskId)
+    this.record(`Restore '${taskId}'`, {
+      undo: async () => { await this._kanbn.archiveTask(taskId) },
+      redo: async () => {
+        await this._kanbn.restoreTask(taskId, column)
+        await this._kanbn.moveTask(taskId, column, position)
+      }
+    })
+  }
+
+  // Delete a task and its file. The task's data is kept in the journal so that it can be re-created.
+  public async deleteTask (taskId: string): Promise<void> {
+    const task = await this._kanbn.getTask(taskId)
+    const [column, position] = await this.findTask(taskId)
+    await this._kanbn.deleteTask(taskId, true)
+    this.record(`Delete '${taskId}'`, {
+      undo: async () => {
+        await this._kanbn.createTask(task, column)
+        await this._kanbn.moveTask(taskId, column, position)
+      },
+      redo: async () => { await this._kanbn.deleteTask(taskId, true) }
+    })
+  }
+
+  // Reverse the most recent entry. Returns the entry's description, or null if there was nothing to undo.
+  public async undo (): Promise<string | null> {
+    const entry = this._undoStack[this._undoStack.length - 1]
+    if (entry === undefined) {
+      return null
+    }
+    await this.replay([...entry.operations].reverse().map(operation => [operation.undo, operation.redo]))
+    this._redoStack.push(this._undoStack.pop() as JournalEntry)
+    return entry.description
+  }
+
+  // Re-apply the most recently undone entry. Returns the entry's description, or null if there was nothing to redo.
+  public async redo (): Promise<string | null> {
+    const entry = this._redoStack[this._redoStack.length - 1]
+    if (entry === undefined) {
+      return null
+    }
+    await this.replay(entry.operations.map(operation => [operation.redo, operation.undo]))
+    this._undoStack.push(this._redoStack.pop() as JournalEntry)
+    return entry.description
+  }
+
+  // Run each step of an entry in order. If a step fails, the steps that have already run are reversed, so that the
+  // entry stays on its stack and can be tried again.
+  private async replay (steps: Array<[() => Promise<void>, () => Promise<void>]>): Promise<void> {
+    const done: Array<() => Promise<void>> = []
+    for (const [step, reverse] of steps) {
+      try {
+        await step()
+      } catch (e) {
+        for (const reverseStep of done.reverse()) {
+          try {
+            await reverseStep()
+          } catch (reverseError) {
+            // Keep reversing the other steps. The original error is the one that's reported.
+          }
+        }
+        throw e
+      }
+      done.push(reverse)
+    }
+  }
+
+  // Find the column that a task is in and its position in the column
+  private async findTask (taskId: string): Promise<[string, number]> {
+    const index = await this._kanbn.getIndex()
+    for (const [columnName, taskIds] of Object.entries(index.columns as Record<string, string[]>)) {
+      const position = taskIds.indexOf(taskId)
+      if (position !== -1) {
+        return [columnName, position]
+      }
+    }
+    throw new Error(`Task '${taskId}' is not in the index.`)
+  }
+
+  private record (description: string, operation: Operation): void {
+    if (this._batch !== null) {
+      this._batch.push(operation)
+    } else {
+      this.push({ description, operations: [operation] })
+    }
+  }
+
+  // Add an entry to the undo stack, dropping the oldest entries when the history is full. Making a new change
+  // means that anything that was undone can no longer be redone.
+  private push (entry: JournalEntry): void {
+    const historySize = vscode.workspace.getConfiguration('kanbn').get<number>('undoHistorySize') ?? 50
+    this._undoStack.push(entry)
+    this._undoStack.splice(0, Math.max(0, this._undoStack.length - historySize))
+    this._redoStack.length = 0
+  }
+}
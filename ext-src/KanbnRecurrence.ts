@@ -0,0 +1,153 @@
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// A recurrence rule, written in a task's metadata as "daily", "weekly", "monthly", "every {n} days" or "sprint"
+type RecurrenceRule =
+  | { type: 'days', days: number }
+  | { type: 'monthly' }
+  | { type: 'sprint' }
+
+const parseRecurrenceRule = (rule: any): RecurrenceRule | null => {
+  const text = `${rule as string}`.trim().toLowerCase()
+  switch (text) {
+    case 'daily':
+      return { type: 'days', days: 1 }
+    case 'weekly':
+      return { type: 'days', days: 7 }
+    case 'monthly':
+      return { type: 'monthly' }
+    case 'sprint':
+      return { type: 'sprint' }
+  }
+  const match = text.match(/^every (\d+) days?$/)
+  if (match !== null && Number(match[1]) > 0) {
+    return { type: 'days', days: Number(match[1]) }
+  }
+  return null
+}
+
+// Check if a recurring task's period has come around since the task was created
+const periodElapsed = (rule: RecurrenceRule, created: Date, sprints: Array<{ start: string }>, now: Date): boolean => {
+  switch (rule.type) {
+    case 'days':
+      return now.getTime() - created.getTime() >= rule.days * DAY
+    case 'monthly': {
+      const next = new Date(created)
+      next.setMonth(next.getMonth() + 1)
+      return now >= next
+    }
+    case 'sprint':
+      return sprints.some(sprint => new Date(sprint.start) > created)
+  }
+}
+
+// Generates a fresh copy of each recurring task when the task is completed or when its period comes around. The
+// recurrence rule moves to the new copy, so each recurring task only has one copy that will recur.
+export default class KanbnRecurrence {
+  private readonly _kanbn: Kanbn
+  private _processing = false
+  private _processAgain = false
+
+  constructor (kanbn: Kanbn) {
+    this._kanbn = kanbn
+  }
+
+  public async process (): Promise<void> {
+    // Creating tasks triggers the file watcher, so make sure only one pass runs at a time
+    if (this._processing) {
+      this._processAgain = true
+      return
+    }
+    this._processing = true
+    try {
+      do {
+        this._processAgain = false
+        await this.processRecurringTasks()
+      } while (this._processAgain)
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(`Couldn't create recurring tasks: ${e.message}`)
+      } else {
+        throw e
+      }
+    } finally {
+      this._processing = false
+    }
+  }
+
+  private async processRecurringTasks (): Promise<void> {
+    if ((await this._kanbn.initialised()) !== true) {
+      return
+    }
+    const index = await this._kanbn.getIndex()
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    const now = new Date()
+    const created: string[] = []
+    const taskIds = new Set<string>([
+      ...Object.values(index.columns as Record<string, string[]>).flat(),
+      ...await this._kanbn.listArchivedTasks()
+    ])
+    for (const task of await this._kanbn.loadAllTrackedTasks(index)) {
+      if (task.metadata.recurrence === undefined) {
+        continue
+      }
+      const rule = parseRecurrenceRule(task.metadata.recurrence)
+      if (rule === null) {
+        continue
+      }
+      const createdDate = new Date(task.metadata.created ?? now)
+      const completed = task.metadata.completed !== undefined || completedColumns.some(
+        columnName => (index.columns[columnName] ?? []).includes(task.id)
+      )
+      if (!completed && !periodElapsed(rule, createdDate, index.options.sprints ?? [], now)) {
+        continue
+      }
+      created.push(await this.createCopy(index, taskIds, task, createdDate, now))
+
+      // The new copy recurs from now on
+      delete task.metadata.recurrence
+      await this._kanbn.updateTask(task.id, task)
+    }
+    if (
+      created.length > 0 &&
+      vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true
+    ) {
+      void vscode.window.showInformationMessage(
+        `Created recurring task${created.length === 1 ? '' : 's'} ${created.map(name => `'${name}'`).join(', ')}.`
+      )
+    }
+  }
+
+  // Create a fresh copy of a recurring task in the first column. The copy's name has the date appended so that it
+  // gets a new task ID. Returns the name of the new task.
+  private async createCopy (index: any, taskIds: Set<string>, task: any, createdDate: Date, now: Date): Promise<string> {
+    const baseName = (task.name as string).replace(/ \(\d{4}-\d{2}-\d{2}(?: \d+)?\)$/, '')
+    const date = `${now.getFullYear()}-${`${now.getMonth() + 1}`.padStart(2, '0')}-${`${now.getDate()}`.padStart(2, '0')}`
+    let name = `${baseName} (${date})`
+    for (let i = 2; taskIds.has(paramCase(name)); i++) {
+      name = `${baseName} (${date} ${i})`
+    }
+    taskIds.add(paramCase(name))
+    const { created, updated, started, completed, due, ...metadata } = task.metadata
+
+    // Keep the same amount of time between the task being created and being due
+    if (due !== undefined) {
+      metadata.due = new Date(now.getTime() + new Date(due).getTime() - createdDate.getTime())
+    }
+    await this._kanbn.createTask(
+      {
+        name,
+        description: task.description,
+        metadata,
+        subTasks: task.subTasks.map((subTask: { text: string }) => ({ ...subTask, completed: false })),
+        relations: task.relations,
+        comments: []
+      },
+      Object.keys(index.columns)[0]
+    )
+    return name
+  }
+}
@@ -0,0 +1,256 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import KanbnJournal from './KanbnJournal'
+import { parseDate } from '../src/dates'
+
+const SNOOZES_KEY = 'kanbn.reminderSnoozes'
+const SHOWN_KEY = 'kanbn.shownReminders'
+// When more reminders than this are due at once, they are shown as one summary notification
+const MAX_REMINDER_NOTIFICATIONS = 3
+const REMINDER_ACTIONS = ['Open task', 'Snooze 1 day', 'Mark complete']
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+type ReminderKind = 'overdue' | 'due-today' | 'due-soon'
+
+interface Reminder {
+  boardLocation: string
+  kanbn: Kanbn
+  kanbnJournal: KanbnJournal
+  task: any
+  kind: ReminderKind
+  days: number
+}
+
+// Today's date as YYYY-MM-DD in local time
+const getToday = (): string => {
+  const now = new Date()
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()].map(n => `${n}`.padStart(2, '0')).join('-')
+}
+
+// The number of whole calendar days from one date to another
+const daysBetween = (from: Date, to: Date): number => Math.round(
+  (new Date(to.getFullYear(), to.getMonth(), to.getDate()).getTime() -
+    new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime()) / DAY
+)
+
+const getReminderMessage = (kind: ReminderKind, taskName: string, days: number): string => {
+  switch (kind) {
+    case 'overdue':
+      return `Task '${taskName}' is overdue by ${-days} day${days === -1 ? '' : 's'}.`
+    case 'due-today':
+      return `Task '${taskName}' is due today.`
+    case 'due-soon':
+      return `Task '${taskName}' is due ${days === 1 ? 'tomorrow' : `in ${days} days`}.`
+  }
+}
+
+// Checks every board in the background for tasks that are overdue, due today or due soon, and shows a notification
+// for each one, or a single summary notification if there are a lot of them. Each reminder is shown once a day.
+// Reminders can be snoozed for a day. Snoozes and the reminders that have been shown are kept in the global state so
+// that they last across reloads.
+export default class KanbnReminders {
+  private readonly _globalState: vscode.Memento
+  private readonly _getBoards: () => Array<{ boardLocation: string, kanbn: Kanbn, kanbnJournal: KanbnJournal }>
+  private _checking = false
+
+  constructor (
+    globalState: vscode.Memento,
+    getBoards: () => Array<{ boardLocation: string, kanbn: Kanbn, kanbnJournal: KanbnJournal }>
+  ) {
+    this._globalState = globalState
+    this._getBoards = getBoards
+  }
+
+  // Check for reminders now, and then once an hour
+  public start (subscriptions: vscode.Disposable[]): void {
+    const interval = setInterval(() => { void this.check() }, HOUR)
+    subscriptions.push({ dispose: () => clearInterval(interval) })
+    void this.check()
+  }
+
+  public async check (): Promise<void> {
+    const configuration = vscode.workspace.getConfiguration('kanbn')
+    if (this._checking || configuration.get<boolean>('showDueDateReminders') === false) {
+      return
+    }
+    this._checking = true
+    try {
+      const dueSoonDays = configuration.get<number>('dueSoonDays') ?? 2
+      const snoozes = await this.getSnoozes()
+      const shownReminders = await this.getShownReminders()
+      const reminders: Reminder[] = []
+      const now = new Date()
+      for (const { boardLocation, kanbn, kanbnJournal } of this._getBoards()) {
+        let index: any
+        let tasks: any[]
+        try {
+          if ((await kanbn.initialised()) !== true) {
+            continue
+          }
+          index = await kanbn.getIndex()
+          tasks = (await kanbn.loadAllTrackedTasks(index)).map(task => kanbn.hydrateTask(index, task))
+        } catch (e) {
+          // The board's problems are reported in the problems panel
+          continue
+        }
+        const completedColumns: string[] = index.options.completedColumns ?? []
+        for (const task of tasks) {
+          if (
+            task.metadata.due === undefined ||
+            task.metadata.completed !== undefined ||
+            completedColumns.includes(task.column)
+          ) {
+            continue
+          }
+          const due = parseDate(task.metadata.due)
+          if (isNaN(due.getTime())) {
+            continue
+          }
+          const days = daysBetween(now, due)
+          const kind: ReminderKind | null = days < 0
+            ? 'overdue'
+            : days === 0 ? 'due-today' : days <= dueSoonDays ? 'due-soon' : null
+          const key = path.join(boardLocation, task.id)
+          if (kind === null || key in snoozes || `${key} ${kind}` in shownReminders) {
+            continue
+          }
+          shownReminders[`${key} ${kind}`] = getToday()
+          reminders.push({ boardLocation, kanbn, kanbnJournal, task, kind, days })
+        }
+      }
+      await this._globalState.update(SHOWN_KEY, shownReminders)
+      if (reminders.length > MAX_REMINDER_NOTIFICATIONS) {
+        void this.showSummary(reminders)
+      } else {
+        reminders.forEach(reminder => { void this.showReminder(reminder) })
+      }
+    } finally {
+      this._checking = false
+    }
+  }
+
+  private async showReminder (reminder: Reminder): Promise<void> {
+    const message = getReminderMessage(reminder.kind, reminder.task.name, reminder.days)
+    const action = reminder.kind === 'overdue'
+      ? await vscode.window.showWarningMessage(message, ...REMINDER_ACTIONS)
+      : await vscode.window.showInformationMessage(message, ...REMINDER_ACTIONS)
+    await this.runAction(reminder, action)
+  }
+
+  // Show one notification for a lot of reminders. The tasks can then be picked from a list, and the reminder actions
+  // picked for each one.
+  private async showSummary (reminders: Reminder[]): Promise<void> {
+    const count = (kind: ReminderKind): number => reminders.filter(reminder => reminder.kind === kind).length
+    const overdue = count('overdue')
+    const message = `${reminders.length} tasks need attention: ` + [
+      overdue > 0 ? `${overdue} overdue` : null,
+      count('due-today') > 0 ? `${count('due-today')} due today` : null,
+      count('due-soon') > 0 ? `${count('due-soon')} due soon` : null
+    ].filter(part => part !== null).join(', ') + '.'
+    const show = overdue > 0
+      ? await vscode.window.showWarningMessage(message, 'Show tasks')
+      : await vscode.window.showInformationMessage(message, 'Show tasks')
+    if (show === undefined) {
+      return
+    }
+    const items = reminders
+      .sort((a, b) => a.days - b.days)
+      .map(reminder => ({
+        label: reminder.task.name as string,
+        description: getReminderMessage(reminder.kind, reminder.task.name, reminder.days),
+        detail: vscode.workspace.asRelativePath(reminder.boardLocation),
+        reminder
+      }))
+    // Keep showing the list until it's dismissed, a task is opened or every task has been dealt with
+    while (items.length > 0) {
+      const item = await vscode.window.showQuickPick(items, { placeHolder: 'Pick a task' })
+      if (item === undefined) {
+        return
+      }
+      const action = await vscode.window.showQuickPick(REMINDER_ACTIONS, { placeHolder: item.description })
+      await this.runAction(item.reminder, action)
+      if (action === 'Open task') {
+        return
+      }
+      if (action !== undefined) {
+        items.splice(items.indexOf(item), 1)
+      }
+    }
+  }
+
+  private async runAction (
+    { boardLocation, kanbn, kanbnJournal, task }: Reminder,
+    action: string | undefined
+  ): Promise<void> {
+    try {
+      switch (action) {
+        case 'Open task':
+          await vscode.commands.executeCommand('kanbn.openTaskReference', boardLocation, task.id, task.column)
+          break
+        case 'Snooze 1 day':
+          await this.snooze(path.join(boardLocation, task.id))
+          break
+        case 'Mark complete':
+          await this.completeTask(kanbn, kanbnJournal, task.id)
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(`Couldn't update task '${task.name as string}': ${e.message}`)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Move a task into the board's first completed column, or give it a completed date if the board has no completed
+  // columns
+  private async completeTask (kanbn: Kanbn, kanbnJournal: KanbnJournal, taskId: string): Promise<void> {
+    const index = await kanbn.getIndex()
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    if (completedColumns.length > 0) {
+      await kanbnJournal.moveTask(taskId, completedColumns[0])
+    } else {
+      const task = await kanbn.getTask(taskId)
+      task.metadata.completed = new Date()
+      await kanbnJournal.updateTask(taskId, task)
+    }
+  }
+
+  // Stop reminding about a task for a day. A snoozed reminder is shown again at the first check after the snooze
+  // runs out.
+  private async snooze (key: string): Promise<void> {
+    const snoozes = await this.getSnoozes()
+    snoozes[key] = Date.now() + DAY
+    await this._globalState.update(SNOOZES_KEY, snoozes)
+    const shownReminders = await this.getShownReminders()
+    await this._globalState.update(SHOWN_KEY, Object.fromEntries(
+      Object.entries(shownReminders).filter(([reminder]) => !reminder.startsWith(`${key} `))
+    ))
+  }
+
+  // Get the reminders that have been shown today, as the date they were shown keyed by board location, task ID and
+  // kind of reminder. Reminders shown on earlier days are removed from the global state, so that they are shown again.
+  private async getShownReminders (): Promise<Record<string, string>> {
+    const shownReminders = this._globalState.get<Record<string, string>>(SHOWN_KEY) ?? {}
+    const today = getToday()
+    const todaysReminders = Object.fromEntries(Object.entries(shownReminders).filter(([, date]) => date === today))
+    if (Object.keys(todaysReminders).length !== Object.keys(shownReminders).length) {
+      await this._globalState.update(SHOWN_KEY, todaysReminders)
+    }
+    return todaysReminders
+  }
+
+  // Get the snoozes that haven't run out yet, keyed by board location and task ID. Snoozes that have run out are
+  // removed from the global state.
+  private async getSnoozes (): Promise<Record<string, number>> {
+    const snoozes = this._globalState.get<Record<string, number>>(SNOOZES_KEY) ?? {}
+    const now = Date.now()
+    const activeSnoozes = Object.fromEntries(Object.entries(snoozes).filter(([, until]) => until > now))
+    if (Object.keys(activeSnoozes).length !== Object.keys(snoozes).length) {
+      await this._globalState.update(SNOOZES_KEY, activeSnoozes)
+    }
+    return activeSnoozes
+  }
+}
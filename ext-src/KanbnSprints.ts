@@ -0,0 +1,252 @@
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// The planned length of a sprint in days, if the previous sprint doesn't have a planned end date
+const DEFAULT_SPRINT_LENGTH = 14
+
+// A sprint, saved in the index options. Older sprints only have a start date, name and description.
+export interface Sprint {
+  start: string | Date
+  name: string
+  description?: string
+  // The planned end date
+  end?: string | Date
+  goal?: string
+  // The IDs of the tasks that were planned for the sprint
+  tasks?: string[]
+  // The date that the sprint was closed
+  closed?: string | Date
+}
+
+const formatDay = (date: Date): string => [
+  date.getFullYear(),
+  `${date.getMonth() + 1}`.padStart(2, '0'),
+  `${date.getDate()}`.padStart(2, '0')
+].join('-')
+
+const taskCount = (count: number): string => `${count} task${count === 1 ? '' : 's'}`
+
+// Get the sprint in progress, which is the last sprint if it hasn't been closed
+export const getCurrentSprint = (index: any): Sprint | null => {
+  const sprints: Sprint[] = index.options.sprints ?? []
+  const sprint = sprints[sprints.length - 1]
+  return sprint !== undefined && sprint.closed === undefined ? sprint : null
+}
+
+// Handles starting, planning and closing sprints
+export default class KanbnSprints {
+  private readonly _kanbn: Kanbn
+
+  constructor (kanbn: Kanbn) {
+    this._kanbn = kanbn
+  }
+
+  // Let the user pick a sprint action. If there's no sprint in progress, start a new one.
+  public async chooseAction (): Promise<void> {
+    const sprint = getCurrentSprint(await this._kanbn.getIndex())
+    if (sprint === null) {
+      await this.start()
+      return
+    }
+    const action = await vscode.window.showQuickPick(
+      [`Plan sprint '${sprint.name}'`, `Close sprint '${sprint.name}'`, 'Start a new sprint'],
+      {
+        placeHolder: sprint.goal !== undefined && sprint.goal !== '' ? `Goal: ${sprint.goal}` : 'Select a sprint action',
+        canPickMany: false
+      }
+    )
+    switch (action) {
+      case `Plan sprint '${sprint.name}'`:
+        await this.plan()
+        break
+      case `Close sprint '${sprint.name}'`:
+        await this.close()
+        break
+      case 'Start a new sprint':
+        await this.start()
+    }
+  }
+
+  // Start a new sprint with a goal and a planned end date, then pick the tasks that belong to it. Unfinished tasks
+  // from the previous sprint are carried over by default.
+  public async start (): Promise<void> {
+    let index = await this._kanbn.getIndex()
+    const sprints: Sprint[] = index.options.sprints ?? []
+    const previousSprint = sprints[sprints.length - 1]
+    if (previousSprint !== undefined && previousSprint.closed === undefined) {
+      const closeFirst = await vscode.window.showWarningMessage(
+        `Sprint '${previousSprint.name}' hasn't been closed yet.`,
+        { modal: true },
+        'Close sprint',
+        'Start anyway'
+      )
+      if (closeFirst === 'Close sprint') {
+        await this.close()
+        return
+      }
+      if (closeFirst !== 'Start anyway') {
+        return
+      }
+    }
+
+    const name = await vscode.window.showInputBox({
+      placeHolder: 'The sprint name.'
+    })
+    if (name === undefined) {
+      return
+    }
+    const goal = await vscode.window.showInputBox({
+      placeHolder: 'The sprint goal. Leave this empty if the sprint has no goal.'
+    })
+    if (goal === undefined) {
+      return
+    }
+
+    // Suggest an end date that gives the new sprint the same length as the previous sprint
+    const start = new Date()
+    let sprintLength = DEFAULT_SPRINT_LENGTH
+    if (previousSprint?.end !== undefined) {
+      sprintLength = Math.max(1, Math.round(
+        (new Date(previousSprint.end).getTime() - new Date(previousSprint.start).getTime()) / DAY
+      ))
+    }
+    const end = await vscode.window.showInputBox({
+      prompt: 'The planned end date for the sprint (YYYY-MM-DD).',
+      value: formatDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() + sprintLength)),
+      validateInput: (text) => {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(`${text}T00:00:00`).getTime())) {
+          return 'This is not a valid date. Use the format YYYY-MM-DD.'
+        }
+        return new Date(`${text}T00:00:00`) < start ? 'The end date must be after the start date.' : null
+      }
+    })
+    if (end === undefined) {
+      return
+    }
+
+    const carriedOver = previousSprint !== undefined ? await this.getUnfinishedTasks(index, previousSprint) : []
+    const taskIds = await this.pickTasks(index, carriedOver)
+    if (taskIds === undefined) {
+      return
+    }
+
+    await this._kanbn.sprint(name, '', start)
+
+    // The sprint has been added to the end of the index's sprints, so it can be updated with its plan
+    index = await this._kanbn.getIndex()
+    const sprint: Sprint = index.options.sprints[index.options.sprints.length - 1]
+    // Kanbn always saves a description, but sprints without one shouldn't have an empty description in the index
+    if (sprint.description === '') {
+      delete sprint.description
+    }
+    if (goal.trim() !== '') {
+      sprint.goal = goal.trim()
+    }
+    sprint.end = new Date(`${end}T00:00:00`)
+    sprint.tasks = taskIds
+    await this._kanbn.saveIndex(index)
+  }
+
+  // Change which tasks belong to the sprint in progress
+  public async plan (): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const sprint = getCurrentSprint(index)
+    if (sprint === null) {
+      void vscode.window.showInformationMessage('There is no sprint in progress.')
+      return
+    }
+    const taskIds = await this.pickTasks(index, sprint.tasks ?? [])
+    if (taskIds === undefined) {
+      return
+    }
+    sprint.tasks = taskIds
+    await this._kanbn.saveIndex(index)
+  }
+
+  // Close the sprint in progress and summarise what was done. Unfinished tasks are carried over when the next sprint
+  // is started.
+  public async close (): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const sprint = getCurrentSprint(index)
+    if (sprint === null) {
+      void vscode.window.showInformationMessage('There is no sprint in progress.')
+      return
+    }
+    const tasks = await this.getSprintTasks(index, sprint)
+    const unfinished = await this.getUnfinishedTasks(index, sprint)
+    const completed = tasks.filter(task => !unfinished.includes(task.id))
+    const getWorkload = (tasks: any[]): number => tasks.reduce((total: number, task) => total + Number(task.workload ?? 0), 0)
+    sprint.closed = new Date()
+    await this._kanbn.saveIndex(index)
+
+    const summary = [
+      sprint.goal !== undefined && sprint.goal !== '' ? `Goal: ${sprint.goal}` : null,
+      tasks.length > 0
+        ? `Completed ${completed.length} of ${taskCount(tasks.length)}, with a workload of ${getWorkload(completed)} of ${getWorkload(tasks)}.`
+        : 'No tasks were planned for this sprint.',
+      unfinished.length > 0
+        ? `${taskCount(unfinished.length)} will be carried over to the next sprint:\n${
+            tasks.filter(task => unfinished.includes(task.id)).map(task => `  ${task.name as string}`).join('\n')
+          }`
+        : null
+    ].filter(line => line !== null).join('\n\n')
+    const startNext = await vscode.window.showInformationMessage(
+      `Closed sprint '${sprint.name}'.`,
+      { modal: true, detail: summary },
+      'Start next sprint'
+    )
+    if (startNext === 'Start next sprint') {
+      await this.start()
+    }
+  }
+
+  // Get the tasks that were planned for a sprint. Tasks that have since been deleted or archived are left out.
+  private async getSprintTasks (index: any, sprint: Sprint): Promise<any[]> {
+    const taskIds = sprint.tasks ?? []
+    return (await this._kanbn.loadAllTrackedTasks(index))
+      .filter((task: any) => taskIds.includes(task.id))
+      .map((task: any) => this._kanbn.hydrateTask(index, task))
+  }
+
+  // Get the IDs of a sprint's tasks that haven't been completed
+  private async getUnfinishedTasks (index: any, sprint: Sprint): Promise<string[]> {
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    return (await this.getSprintTasks(index, sprint))
+      .filter(task => task.metadata.completed === undefined && !completedColumns.includes(task.column))
+      .map(task => task.id)
+  }
+
+  // Pick the tasks that belong to a sprint from the board's unfinished tasks. Returns undefined if the pick was
+  // cancelled.
+  private async pickTasks (index: any, picked: string[]): Promise<string[] | undefined> {
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    const columnNames = Object.keys(index.columns)
+    const tasks = (await this._kanbn.loadAllTrackedTasks(index))
+      .map((task: any) => this._kanbn.hydrateTask(index, task))
+      .filter((task: any) => picked.includes(task.id) || (
+        task.metadata.completed === undefined && !completedColumns.includes(task.column)
+      ))
+      .sort((a: any, b: any) => columnNames.indexOf(a.column) - columnNames.indexOf(b.column))
+    if (tasks.length === 0) {
+      return []
+    }
+    const items: Array<vscode.QuickPickItem & { taskId: string }> = tasks.map((task: any) => ({
+      label: task.name,
+      description: task.column,
+      detail: task.workload > 0 ? `Workload: ${task.workload as number}` : undefined,
+      picked: picked.includes(task.id),
+      taskId: task.id
+    }))
+    const pickedItems = await vscode.window.showQuickPick(
+      items,
+      {
+        placeHolder: 'Select the tasks for this sprint',
+        canPickMany: true,
+        matchOnDescription: true
+      }
+    )
+    return pickedItems?.map(item => item.taskId)
+  }
+}
@@ -1,9 +1,20 @@
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 import * as vscode from 'vscode'
+import { CurrentTask } from './KanbnGit'
+import { RunningTimer } from './KanbnTimer'
+import { formatDuration } from '../src/duration'
 
 export default class KanbnStatusBarItem {
   private readonly _statusBarItem: vscode.StatusBarItem
   private _kanbn: Kanbn | null
+  // The task that the current git branch is for, by board. Boards in the same repository share a branch, so only
+  // the board that is being shown has its current task shown.
+  private readonly _currentTasks = new Map<Kanbn, CurrentTask>()
+  // The task that a timer is running for
+  private _timer: RunningTimer | null = null
+  // The board's status, without the current task and timer
+  private _text: string[] = []
+  private _tooltip: string[] = []
 
   constructor (
     context: vscode.ExtensionContext,
@@ -12,6 +23,24 @@ export default class KanbnStatusBarItem {
     this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0)
     context.subscriptions.push(this._statusBarItem)
     this._kanbn = kanbn
+
+    // Keep the timer's elapsed time up to date
+    const interval = setInterval(() => { if (this._timer !== null) this.render() }, 30 * 1000)
+    context.subscriptions.push({ dispose: () => clearInterval(interval) })
+  }
+
+  setCurrentTask (kanbn: Kanbn, currentTask: CurrentTask | null): void {
+    if (currentTask !== null) {
+      this._currentTasks.set(kanbn, currentTask)
+    } else {
+      this._currentTasks.delete(kanbn)
+    }
+    this.render()
+  }
+
+  setTimer (timer: RunningTimer | null): void {
+    this._timer = timer
+    this.render()
   }
 
   async update (kanbn: Kanbn): Promise<void> {
@@ -45,10 +74,9 @@ export default class KanbnStatusBarItem {
       } else {
         tooltip.push('No tasks')
       }
-      this._statusBarItem.text = text.join(' ')
-      this._statusBarItem.tooltip = tooltip.join('\n')
-      this._statusBarItem.command = 'kanbn.openBoard'
-      this._statusBarItem.show()
+      this._text = text
+      this._tooltip = tooltip
+      this.render()
     } else {
       this._statusBarItem.text = '$(project)'
       this._statusBarItem.tooltip = 'Initialise Kanbn'
@@ -60,4 +88,32 @@ export default class KanbnStatusBarItem {
       }
     }
   }
+
+  // Show the board's status along with the current task and timer
+  private render (): void {
+    if (this._text.length === 0 && this._timer === null) {
+      return
+    }
+    const text = [...this._text]
+    const tooltip = [...this._tooltip]
+    const currentTask = this._kanbn !== null ? this._currentTasks.get(this._kanbn) : undefined
+    if (currentTask !== undefined) {
+      text.push(`$(git-branch) ${currentTask.name}`)
+      tooltip.push(`Working on '${currentTask.name}'`)
+    }
+    if (this._timer !== null) {
+      if (this._timer.paused) {
+        text.push(`$(debug-pause) ${this._timer.taskName}`)
+        tooltip.push(`Timer for '${this._timer.taskName}' paused while VS Code is idle`)
+      } else {
+        const elapsed = formatDuration(Date.now() - this._timer.start)
+        text.push(`$(watch) ${this._timer.taskName} ${elapsed}`)
+        tooltip.push(`Timer running for '${this._timer.taskName}' (${elapsed})`)
+      }
+    }
+    this._statusBarItem.text = text.join(' ')
+    this._statusBarItem.tooltip = tooltip.join('\n')
+    this._statusBarItem.command = 'kanbn.openBoard'
+    this._statusBarItem.show()
+  }
 }
@@ -0,0 +1,267 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+// Task IDs are the param-case task name, and relation links refer to the task file, e.g. '(some-task.md)'
+const TASK_ID_PATTERN = /[\w.-]+/
+
+// The context that the cursor is in, which decides what can be completed
+type CompletionContext = 'field-name' | 'tags' | 'assigned' | 'relation' | null
+
+// Get the line number of the end of the front matter, or -1 if the document doesn't have any front matter
+const getFrontMatterEnd = (document: vscode.TextDocument): number => {
+  if (document.lineCount === 0 || document.lineAt(0).text.trim() !== '---') {
+    return -1
+  }
+  for (let line = 1; line < document.lineCount; line++) {
+    if (document.lineAt(line).text.trim() === '---') {
+      return line
+    }
+  }
+  return -1
+}
+
+// Get the name of the section heading that a line is in, or null if the line isn't in a section
+const getSection = (document: vscode.TextDocument, lineNumber: number): string | null => {
+  for (let line = lineNumber; line >= 0; line--) {
+    const heading = /^##\s+(.*)$/.exec(document.lineAt(line).text)
+    if (heading !== null) {
+      return heading[1].trim()
+    }
+    if (/^#\s/.test(document.lineAt(line).text)) {
+      return null
+    }
+  }
+  return null
+}
+
+const getCompletionContext = (document: vscode.TextDocument, position: vscode.Position): CompletionContext => {
+  const textBefore = document.lineAt(position.line).text.slice(0, position.character)
+  if (position.line < getFrontMatterEnd(document)) {
+    if (/^\w*$/.test(textBefore)) {
+      return 'field-name'
+    }
+    if (/^assigned:\s*/.test(textBefore)) {
+      return 'assigned'
+    }
+    if (/^tags:\s*/.test(textBefore)) {
+      return 'tags'
+    }
+
+    // List items belong to the closest field above them
+    if (/^\s+-\s*/.test(textBefore)) {
+      for (let line = position.line - 1; line > 0; line--) {
+        const field = /^(\w+):/.exec(document.lineAt(line).text)
+        if (field !== null) {
+          return field[1] === 'tags' ? 'tags' : null
+        }
+      }
+    }
+    return null
+  }
+  if (getSection(document, position.line) === 'Relations' && /^\s*-\s/.test(textBefore)) {
+    return 'relation'
+  }
+  return null
+}
+
+// Get a task's status, based on its dates and the board's started and completed columns
+const getStatus = (index: any, task: any): string => {
+  const startedColumns: string[] = index.options.startedColumns ?? []
+  const completedColumns: string[] = index.options.completedColumns ?? []
+  if (task.metadata.completed !== undefined || completedColumns.includes(task.column)) {
+    return 'Completed'
+  }
+  if (task.metadata.due !== undefined && new Date(task.metadata.due) < new Date()) {
+    return 'Overdue'
+  }
+  if (task.metadata.started !== undefined || startedColumns.includes(task.column)) {
+    return 'Started'
+  }
+  return 'Not started'
+}
+
+// Provides completion, hovers, go-to-definition and an outline for task files in '<board>/.kanbn/tasks'
+export default class KanbnTaskLanguageProvider implements
+  vscode.CompletionItemProvider,
+  vscode.HoverProvider,
+  vscode.DefinitionProvider,
+  vscode.DocumentSymbolProvider {
+  public static readonly selector: vscode.DocumentSelector = {
+    scheme: 'file',
+    language: 'markdown',
+    pattern: '**/.kanbn/tasks/*.md'
+  }
+
+  private readonly _getKanbn: (boardLocation: string) => Kanbn | undefined
+
+  constructor (getKanbn: (boardLocation: string) => Kanbn | undefined) {
+    this._getKanbn = getKanbn
+  }
+
+  public async provideCompletionItems (
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const completionContext = getCompletionContext(document, position)
+    if (completionContext === null) {
+      return undefined
+    }
+    const board = await this.loadBoard(document)
+    if (board === null) {
+      return undefined
+    }
+    const { index, tasks } = board
+    const unique = (values: any[]): string[] => [...new Set(values.filter(value => typeof value === 'string' && value !== ''))]
+
+    switch (completionContext) {
+      case 'field-name': {
+        const customFields: Array<{ name: string, type: string }> = index.options.customFields ?? []
+        return customFields.map(customField => {
+          const item = new vscode.CompletionItem(customField.name, vscode.CompletionItemKind.Field)
+          item.detail = `Custom field (${customField.type})`
+          item.insertText = `${customField.name}: `
+          return item
+        })
+      }
+      case 'tags':
+        return unique(tasks.flatMap(task => task.metadata.tags ?? [])).map(tag => {
+          const item = new vscode.CompletionItem(tag, vscode.CompletionItemKind.EnumMember)
+          item.detail = 'Tag'
+          return item
+        })
+      case 'assigned':
+        return unique(tasks.map(task => task.metadata.assigned)).map(assigned => {
+          const item = new vscode.CompletionItem(assigned, vscode.CompletionItemKind.User)
+          item.detail = 'Assignee'
+          return item
+        })
+      case 'relation': {
+        const taskId = path.basename(document.uri.fsPath, '.md')
+        return tasks.filter(task => task.id !== taskId).map(task => {
+          const item = new vscode.CompletionItem(task.id, vscode.CompletionItemKind.Reference)
+          item.detail = task.name
+          item.documentation = `${task.column as string} (${getStatus(index, task)})`
+          item.filterText = `${task.id as string} ${task.name as string}`
+          return item
+        })
+      }
+    }
+  }
+
+  public async provideHover (
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const reference = this.getRelatedTaskId(document, position)
+    if (reference === null) {
+      return undefined
+    }
+    const board = await this.loadBoard(document)
+    const task = board?.tasks.find(task => task.id === reference.taskId)
+    if (board === null || task === undefined) {
+      return undefined
+    }
+    const contents = new vscode.MarkdownString()
+    contents.appendMarkdown('**')
+    contents.appendText(task.name)
+    contents.appendMarkdown('**\n\n')
+    contents.appendText(`Column: ${task.column as string}\n\nStatus: ${getStatus(board.index, task)}`)
+    return new vscode.Hover(contents, reference.range)
+  }
+
+  public async provideDefinition (
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Location | undefined> {
+    const reference = this.getRelatedTaskId(document, position)
+    if (reference === null) {
+      return undefined
+    }
+    const board = await this.loadBoard(document)
+    if (board === null || !board.tasks.some(task => task.id === reference.taskId)) {
+      return undefined
+    }
+    return new vscode.Location(
+      vscode.Uri.file(path.join(path.dirname(document.uri.fsPath), `${reference.taskId}.md`)),
+      new vscode.Position(0, 0)
+    )
+  }
+
+  // List the task name and each of the task's sections, with the sections nested inside the task name
+  public provideDocumentSymbols (document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const symbols: vscode.DocumentSymbol[] = []
+    const frontMatterEnd = getFrontMatterEnd(document)
+    if (frontMatterEnd !== -1) {
+      const range = new vscode.Range(0, 0, frontMatterEnd, document.lineAt(frontMatterEnd).text.length)
+      symbols.push(new vscode.DocumentSymbol('Metadata', '', vscode.SymbolKind.Property, range, range))
+    }
+    let taskSymbol: vscode.DocumentSymbol | null = null
+    let sectionSymbol: vscode.DocumentSymbol | null = null
+    const extendTo = (symbol: vscode.DocumentSymbol | null, line: number): void => {
+      if (symbol !== null && line > symbol.range.end.line) {
+        symbol.range = new vscode.Range(symbol.range.start, document.lineAt(line).range.end)
+      }
+    }
+    for (let line = frontMatterEnd + 1; line < document.lineCount; line++) {
+      const heading = /^(#{1,2})\s+(.*)$/.exec(document.lineAt(line).text)
+      if (heading === null) {
+        if (!document.lineAt(line).isEmptyOrWhitespace) {
+          extendTo(sectionSymbol, line)
+          extendTo(taskSymbol, line)
+        }
+        continue
+      }
+      const range = document.lineAt(line).range
+      if (heading[1] === '#') {
+        taskSymbol = new vscode.DocumentSymbol(heading[2].trim(), 'Task', vscode.SymbolKind.Class, range, range)
+        sectionSymbol = null
+        symbols.push(taskSymbol)
+      } else {
+        sectionSymbol = new vscode.DocumentSymbol(heading[2].trim(), '', vscode.SymbolKind.Namespace, range, range)
+        if (taskSymbol !== null) {
+          extendTo(taskSymbol, line)
+          taskSymbol.children.push(sectionSymbol)
+        } else {
+          symbols.push(sectionSymbol)
+        }
+      }
+    }
+    return symbols
+  }
+
+  // Get the ID of the related task under the cursor, if the cursor is on a relation
+  private getRelatedTaskId (
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): { taskId: string, range: vscode.Range } | null {
+    if (getSection(document, position.line) !== 'Relations') {
+      return null
+    }
+    const range = document.getWordRangeAtPosition(position, TASK_ID_PATTERN)
+    if (range === undefined) {
+      return null
+    }
+    return {
+      taskId: document.getText(range).replace(/\.md$/, ''),
+      range
+    }
+  }
+
+  // Load the index and tasks of the board that a task file belongs to
+  private async loadBoard (document: vscode.TextDocument): Promise<{ index: any, tasks: any[] } | null> {
+    const boardLocation = path.dirname(path.dirname(path.dirname(document.uri.fsPath)))
+    const kanbn = this._getKanbn(boardLocation)
+    if (kanbn === undefined) {
+      return null
+    }
+    try {
+      const index = await kanbn.getIndex()
+      const tasks = (await kanbn.loadAllTrackedTasks(index)).map(task => kanbn.hydrateTask(index, task))
+      return { index, tasks }
+    } catch (e) {
+      // The board's problems are reported in the problems panel
+      return null
+    }
+  }
+}
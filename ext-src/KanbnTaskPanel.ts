@@ -1,6 +1,9 @@
 import * as path from 'path'
 import * as vscode from 'vscode'
 import getNonce from './getNonce'
+import KanbnJournal from './KanbnJournal'
+import KanbnGit from './KanbnGit'
+import KanbnTimer from './KanbnTimer'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 
 function transformTaskData (
@@ -46,6 +49,11 @@ function transformTaskData (
     }
   }
 
+  // Add a recurrence rule if present
+  if (taskData.recurrence !== undefined && taskData.recurrence.trim() !== '') {
+    result.metadata.recurrence = taskData.recurrence.trim().toLowerCase()
+  }
+
   // Add custom fields
   for (const customField of taskData.customFields) {
     result.metadata[customField.name] = customField.value
@@ -76,9 +84,14 @@ export default class KanbnTaskPanel {
   private readonly _extensionPath: string
   private readonly _workspacePath: string
   private readonly _kanbn: Kanbn
+  private readonly _kanbnJournal: KanbnJournal
+  private readonly _kanbnGit: KanbnGit
+  private readonly _kanbnTimer: KanbnTimer
   private readonly _kanbnFolderName: string
   private _taskId: string | null
   private readonly _defaultColumn: string | null
+  // A template that a new task is pre-filled with
+  private readonly _template: any
   private readonly _disposables: vscode.Disposable[] = []
 
   public async show (): Promise<void> {
@@ -90,18 +103,26 @@ export default class KanbnTaskPanel {
     extensionPath: string,
     workspacePath: string,
     kanbn: Kanbn,
+    kanbnJournal: KanbnJournal,
+    kanbnGit: KanbnGit,
+    kanbnTimer: KanbnTimer,
     kanbnFolderName: string,
     taskId: string | null,
     defaultColumn: string | null,
-    taskCache: Map<string, KanbnTaskPanel>
+    taskCache: Map<string, KanbnTaskPanel>,
+    template: any = null
   ) {
     const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One
     this._extensionPath = extensionPath
     this._workspacePath = workspacePath
     this._kanbn = kanbn
+    this._kanbnJournal = kanbnJournal
+    this._kanbnGit = kanbnGit
+    this._kanbnTimer = kanbnTimer
     this._kanbnFolderName = kanbnFolderName
     this._taskId = taskId
     this._defaultColumn = defaultColumn
+    this._template = template
 
     // Create and show a new webview panel
     this._panel = vscode.window.createWebviewPanel(KanbnTaskPanel.viewType, 'New task', column, {
@@ -139,6 +160,9 @@ export default class KanbnTaskPanel {
     // This happens when the user closes the panel or when the panel is closed programatically
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables)
 
+    // Show whether the timer is running for this task
+    this._kanbnTimer.onDidChange(() => { void this.update() }, null, this._disposables)
+
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -168,11 +192,20 @@ export default class KanbnTaskPanel {
                 void vscode.window.showInformationMessage(`Created task '${String(message.taskData.name)}'.`)
               }
             } else {
-              await this._kanbn.updateTask(
-                this._taskId,
-                transformTaskData(message.taskData, message.customFields),
-                message.taskData.column
-              )
+              const taskData = transformTaskData(message.taskData, message.customFields)
+
+              // Keep any metadata that isn't edited in the task editor
+              const editorFields = [
+                'assigned', 'tags', 'due', 'started', 'completed', 'recurrence',
+                ...message.taskData.customFields.map((customField: { name: string }) => customField.name)
+              ]
+              const { metadata } = await this._kanbn.getTask(this._taskId)
+              for (const [key, value] of Object.entries(metadata)) {
+                if (!(key in taskData.metadata) && !editorFields.includes(key)) {
+                  taskData.metadata[key] = value
+                }
+              }
+              await this._kanbnJournal.updateTask(this._taskId, taskData, message.taskData.column)
               if (this._taskId !== message.taskData.id) {
                 taskCache.set(message.taskData.id, this)
                 taskCache.delete(this._taskId ?? '')
@@ -188,6 +221,39 @@ export default class KanbnTaskPanel {
             this._panel.title = message.taskData.name
             return
 
+          // Create and check out a git branch for the task
+          case 'kanbn.startWork':
+            if (this._taskId === null) {
+              return
+            }
+            try {
+              await this._kanbnGit.startWork(this._taskId)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(`Couldn't start work on task: ${e.message}`)
+              } else {
+                throw e
+              }
+            }
+            void this.update()
+            return
+
+          // Start or stop the timer for the task
+          case 'kanbn.toggleTimer':
+            if (this._taskId === null) {
+              return
+            }
+            try {
+              await this._kanbnTimer.toggle(this._kanbnFolderName, this._taskId)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(`Couldn't start the timer: ${e.message}`)
+              } else {
+                throw e
+              }
+            }
+            return
+
           // Delete a task and close the webview panel
           case 'kanbn.delete': {
             const taskName: string = (await this._kanbn.getTask(this._taskId ?? '')).name
@@ -195,7 +261,7 @@ export default class KanbnTaskPanel {
               .showInformationMessage(`Delete task '${taskName}'?`, 'Yes', 'No')
               .then(async (value) => {
                 if (value === 'Yes') {
-                  if (this._taskId !== null) { await this._kanbn.deleteTask(this._taskId, true) }
+                  if (this._taskId !== null) { await this._kanbnJournal.deleteTask(this._taskId) }
                   this.dispose()
                   if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') ?? true) {
                     void vscode.window.showInformationMessage(`Deleted task '${taskName}'.`)
@@ -208,7 +274,7 @@ export default class KanbnTaskPanel {
           // Archive a task and close the webview panel
           case 'kanbn.archive': {
             const taskName: string = (await this._kanbn.getTask(this._taskId ?? '')).name
-            if (this._taskId !== null) await this._kanbn.archiveTask(this._taskId)
+            if (this._taskId !== null) await this._kanbnJournal.archiveTask(this._taskId)
             this.dispose()
             if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') ?? true) {
               // TODO: remove the explicit String cast once typescript bindings for kanbn are updated
@@ -269,10 +335,12 @@ export default class KanbnTaskPanel {
     return {
       index,
       task,
+      template: task === null ? this._template : null,
       tasks,
       customFields: index.options.customFields ?? [],
       columnName,
-      dateFormat: this._kanbn.getDateFormat(index)
+      dateFormat: this._kanbn.getDateFormat(index),
+      timerRunning: this._taskId !== null && this._kanbnTimer.isRunning(this._kanbnFolderName, this._taskId)
     }
   }
 
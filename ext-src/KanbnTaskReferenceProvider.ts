@@ -0,0 +1,191 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+const DEFAULT_TASK_REFERENCE_PATTERN = 'kanbn:([\\w-]+)'
+
+// A task that a reference can point at, along with the board that it's on
+export interface ReferencedTask {
+  boardLocation: string
+  boardName: string
+  task: any
+  completed: boolean
+}
+
+// A task reference found in a document
+interface TaskReference {
+  taskId: string
+  range: vscode.Range
+}
+
+// Get the pattern for task references from the settings. The first capture group is the task ID, or the whole match
+// if the pattern has no capture groups.
+const getPattern = (): RegExp | null => {
+  const pattern = vscode.workspace.getConfiguration('kanbn').get<string>('taskReferencePattern') ?? DEFAULT_TASK_REFERENCE_PATTERN
+  try {
+    return new RegExp(pattern, 'g')
+  } catch (e) {
+    return null
+  }
+}
+
+// Find the task IDs referenced in some text, along with the offset of each task ID in the text
+export const findTaskReferences = (text: string): Array<{ taskId: string, offset: number }> => {
+  const pattern = getPattern()
+  if (pattern === null) {
+    return []
+  }
+  const references: Array<{ taskId: string, offset: number }> = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    // Don't get stuck on patterns that can match an empty string
+    if (match[0] === '') {
+      pattern.lastIndex++
+      continue
+    }
+    const taskId = match[1] ?? match[0]
+    if (taskId !== '') {
+      references.push({ taskId, offset: match.index + match[0].indexOf(taskId) })
+    }
+  }
+  return references
+}
+
+const findReferences = (document: vscode.TextDocument): TaskReference[] =>
+  findTaskReferences(document.getText()).map(({ taskId, offset }) => ({
+    taskId,
+    range: new vscode.Range(document.positionAt(offset), document.positionAt(offset + taskId.length))
+  }))
+
+// Finds references to tasks in any document, such as '// kanbn:fix-login-timeout', and links them to the task on
+// whichever board it's on. References to tasks that don't exist are reported in the problems panel.
+export default class KanbnTaskReferenceProvider implements vscode.DocumentLinkProvider, vscode.HoverProvider {
+  public static readonly selector: vscode.DocumentSelector = { scheme: 'file' }
+
+  private readonly _getBoards: () => Array<{ boardLocation: string, kanbn: Kanbn }>
+  private readonly _diagnosticCollection: vscode.DiagnosticCollection
+  // Tasks on every board by ID, loaded when they are first needed
+  private _tasks: Promise<Map<string, ReferencedTask[]>> | null = null
+
+  constructor (getBoards: () => Array<{ boardLocation: string, kanbn: Kanbn }>, diagnosticCollection: vscode.DiagnosticCollection) {
+    this._getBoards = getBoards
+    this._diagnosticCollection = diagnosticCollection
+  }
+
+  // Forget the loaded tasks and check the open documents again. This should be called whenever a board changes.
+  public refresh (): void {
+    this._tasks = null
+    for (const document of vscode.workspace.textDocuments) {
+      void this.updateDiagnostics(document)
+    }
+  }
+
+  // Report references to tasks that don't exist on any board
+  public async updateDiagnostics (document: vscode.TextDocument): Promise<void> {
+    if (document.uri.scheme !== 'file' || document.uri.fsPath.split(path.sep).includes('.kanbn')) {
+      return
+    }
+    const references = findReferences(document)
+    if (references.length === 0) {
+      this._diagnosticCollection.delete(document.uri)
+      return
+    }
+    const tasks = await this.loadTasks()
+    this._diagnosticCollection.set(document.uri, references
+      .filter(reference => !tasks.has(reference.taskId))
+      .map(reference => {
+        const diagnostic = new vscode.Diagnostic(
+          reference.range,
+          `Task '${reference.taskId}' doesn't exist on any Kanbn board.`,
+          vscode.DiagnosticSeverity.Warning
+        )
+        diagnostic.source = 'kanbn'
+        return diagnostic
+      })
+    )
+  }
+
+  public clearDiagnostics (document: vscode.TextDocument): void {
+    this._diagnosticCollection.delete(document.uri)
+  }
+
+  // Get the tasks with an ID on any board
+  public async getTasks (taskId: string): Promise<ReferencedTask[]> {
+    return (await this.loadTasks()).get(taskId) ?? []
+  }
+
+  public async provideDocumentLinks (document: vscode.TextDocument): Promise<vscode.DocumentLink[]> {
+    const references = findReferences(document)
+    if (references.length === 0) {
+      return []
+    }
+    const tasks = await this.loadTasks()
+    return references.flatMap(reference => {
+      const referencedTask = tasks.get(reference.taskId)?.[0]
+      if (referencedTask === undefined) {
+        return []
+      }
+      const args = [referencedTask.boardLocation, referencedTask.task.id, referencedTask.task.column]
+      const link = new vscode.DocumentLink(
+        reference.range,
+        vscode.Uri.parse(`command:kanbn.openTaskReference?${encodeURIComponent(JSON.stringify(args))}`)
+      )
+      link.tooltip = `Open task '${referencedTask.task.name as string}'`
+      return [link]
+    })
+  }
+
+  public async provideHover (document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const reference = findReferences(document).find(reference => reference.range.contains(position))
+    if (reference === undefined) {
+      return undefined
+    }
+    const referencedTasks = (await this.loadTasks()).get(reference.taskId)
+    if (referencedTasks === undefined) {
+      return undefined
+    }
+
+    // Task IDs are only unique within a board, so show every task with this ID
+    const contents = referencedTasks.map(({ boardName, task }) => {
+      const content = new vscode.MarkdownString()
+      content.appendMarkdown('**')
+      content.appendText(task.name)
+      content.appendMarkdown('**\n\n')
+      content.appendText([
+        referencedTasks.length > 1 ? `Board: ${boardName}` : null,
+        `Column: ${task.column as string}`,
+        `Assigned: ${task.metadata.assigned !== undefined && task.metadata.assigned !== '' ? task.metadata.assigned as string : 'Nobody'}`,
+        `Progress: ${Math.round((task.progress ?? 0) * 100)}%`
+      ].filter(line => line !== null).join('\n\n'))
+      return content
+    })
+    return new vscode.Hover(contents, reference.range)
+  }
+
+  private async loadTasks (): Promise<Map<string, ReferencedTask[]>> {
+    if (this._tasks === null) {
+      this._tasks = (async () => {
+        const tasks = new Map<string, ReferencedTask[]>()
+        for (const { boardLocation, kanbn } of this._getBoards()) {
+          try {
+            const index = await kanbn.getIndex()
+            const completedColumns: string[] = index.options.completedColumns ?? []
+            for (const task of (await kanbn.loadAllTrackedTasks(index)).map(task => kanbn.hydrateTask(index, task))) {
+              const referencedTask = {
+                boardLocation,
+                boardName: index.name,
+                task,
+                completed: task.metadata.completed !== undefined || completedColumns.includes(task.column)
+              }
+              tasks.set(task.id, [...(tasks.get(task.id) ?? []), referencedTask])
+            }
+          } catch (e) {
+            // The board's problems are reported in the problems panel
+          }
+        }
+        return tasks
+      })()
+    }
+    return await this._tasks
+  }
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as parseTask from '@basementuniverse/kanbn/src/parse-task'
+
+// Task templates are task files in a board's .kanbn/templates folder. A template's due date can be given relative
+// to the day the task is created, e.g. "+3d", "+2w" or "+1m".
+const getTemplateFolder = (boardLocation: string): string => path.join(boardLocation, '.kanbn', 'templates')
+
+const relativeDueDate = /^due:[ \t]*(['"]?)\+(\d+)([dwm])\1[ \t]*$/m
+
+// Get the names of all templates for a board
+export const listTemplates = (boardLocation: string): string[] => {
+  const templateFolder = getTemplateFolder(boardLocation)
+  if (!fs.existsSync(templateFolder)) {
+    return []
+  }
+  return fs.readdirSync(templateFolder)
+    .filter(fileName => fileName.endsWith('.md'))
+    .map(fileName => path.basename(fileName, '.md'))
+    .sort((a, b) => a.localeCompare(b))
+}
+
+// Load a template and resolve its relative due date
+export const loadTemplate = async (boardLocation: string, templateName: string): Promise<any> => {
+  const data = await fs.promises.readFile(path.join(getTemplateFolder(boardLocation), `${templateName}.md`), 'utf-8')
+
+  // A relative due date isn't a valid date, so it needs to be taken out before the template is parsed
+  const match = data.match(relativeDueDate)
+  const template = parseTask.md2json(data.replace(relativeDueDate, ''))
+  if (match !== null) {
+    const amount = Number(match[2])
+    const due = new Date()
+    switch (match[3]) {
+      case 'w':
+        due.setDate(due.getDate() + amount * 7)
+        break
+      case 'm':
+        due.setMonth(due.getMonth() + amount)
+        break
+      default:
+        due.setDate(due.getDate() + amount)
+    }
+    template.metadata.due = due
+  }
+  return template
+}
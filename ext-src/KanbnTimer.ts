@@ -0,0 +1,191 @@
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { MINUTE, formatDuration } from '../src/duration'
+
+const STATE_KEY = 'kanbn.timer'
+
+// The timer that is running for a task. Timestamps are in milliseconds so that the timer can be kept in the
+// workspace state.
+export interface RunningTimer {
+  boardLocation: string
+  taskId: string
+  taskName: string
+  // When the current stretch of work started
+  start: number
+  // When VS Code was last used
+  lastActive: number
+  // True if the timer has been paused because VS Code was idle
+  paused: boolean
+}
+
+const getIdleMinutes = (): number => vscode.workspace.getConfiguration('kanbn').get<number>('timerIdleMinutes') ?? 10
+
+// Times work on a task and logs each stretch of work in the task's 'timeLog' metadata. Only one timer runs at a
+// time. The timer is paused when VS Code hasn't been used for a while, and stops when VS Code is closed.
+export default class KanbnTimer {
+  private readonly _workspaceState: vscode.Memento
+  private readonly _getKanbn: (boardLocation: string) => Kanbn | undefined
+  private readonly _onDidChange = new vscode.EventEmitter<RunningTimer | null>()
+  public readonly onDidChange = this._onDidChange.event
+  private _timer: RunningTimer | null = null
+
+  constructor (workspaceState: vscode.Memento, getKanbn: (boardLocation: string) => Kanbn | undefined) {
+    this._workspaceState = workspaceState
+    this._getKanbn = getKanbn
+  }
+
+  public get timer (): RunningTimer | null {
+    return this._timer
+  }
+
+  public isRunning (boardLocation: string, taskId: string): boolean {
+    return this._timer?.boardLocation === boardLocation && this._timer.taskId === taskId
+  }
+
+  // Watch for VS Code being used, and check every so often whether it has gone idle
+  public watch (subscriptions: vscode.Disposable[]): void {
+    const recordActivity = (): void => { this.recordActivity() }
+    subscriptions.push(
+      vscode.window.onDidChangeWindowState(state => { if (state.focused) recordActivity() }),
+      vscode.window.onDidChangeActiveTextEditor(recordActivity),
+      vscode.window.onDidChangeTextEditorSelection(recordActivity),
+      vscode.window.onDidChangeTextEditorVisibleRanges(recordActivity),
+      vscode.workspace.onDidChangeTextDocument(recordActivity)
+    )
+    const interval = setInterval(() => { void this.checkIdle() }, MINUTE / 2)
+    subscriptions.push({ dispose: () => clearInterval(interval) })
+  }
+
+  // Log the time for a timer that was still running when VS Code was closed, and offer to start it again
+  public async restore (): Promise<void> {
+    const timer = this._workspaceState.get<RunningTimer>(STATE_KEY)
+    if (timer === undefined) {
+      return
+    }
+    await this._workspaceState.update(STATE_KEY, undefined)
+    if (!timer.paused) {
+      await this.logTime(timer, timer.lastActive)
+    }
+    const resume = await vscode.window.showInformationMessage(
+      `The timer for task '${timer.taskName}' was stopped when VS Code closed.`,
+      'Resume'
+    )
+    if (resume === undefined) {
+      return
+    }
+    try {
+      await this.start(timer.boardLocation, timer.taskId)
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(`Couldn't resume the timer: ${e.message}`)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Log the time for a running timer when VS Code closes, up to when VS Code was last used. The timer is kept in the
+  // workspace state as paused, so that it can be resumed when VS Code starts again.
+  public async suspend (): Promise<void> {
+    const timer = this._timer
+    if (timer === null || timer.paused) {
+      return
+    }
+    this._timer = { ...timer, paused: true }
+    await this._workspaceState.update(STATE_KEY, this._timer)
+    await this.logTime(timer, timer.lastActive)
+  }
+
+  public async start (boardLocation: string, taskId: string): Promise<void> {
+    const kanbn = this._getKanbn(boardLocation)
+    if (kanbn === undefined) {
+      throw new Error(`Board '${boardLocation}' isn't open.`)
+    }
+    const task = await kanbn.getTask(taskId)
+    await this.stop()
+    const now = Date.now()
+    await this.setTimer({ boardLocation, taskId, taskName: task.name, start: now, lastActive: now, paused: false })
+  }
+
+  // Stop the timer and log the time since it was last started or resumed
+  public async stop (): Promise<void> {
+    const timer = this._timer
+    if (timer === null) {
+      return
+    }
+    await this.setTimer(null)
+    if (!timer.paused) {
+      await this.logTime(timer, Date.now())
+    }
+  }
+
+  public async toggle (boardLocation: string, taskId: string): Promise<void> {
+    if (this.isRunning(boardLocation, taskId)) {
+      await this.stop()
+    } else {
+      await this.start(boardLocation, taskId)
+    }
+  }
+
+  // Resume a paused timer once VS Code is used again
+  private recordActivity (): void {
+    if (this._timer === null) {
+      return
+    }
+    const now = Date.now()
+    if (this._timer.paused) {
+      void this.setTimer({ ...this._timer, start: now, lastActive: now, paused: false })
+    } else {
+      this._timer.lastActive = now
+    }
+  }
+
+  // Pause the timer if VS Code hasn't been used for a while. The time up to the last activity is logged. The
+  // workspace state is kept up to date as well, so that the time can be logged if VS Code is closed.
+  private async checkIdle (): Promise<void> {
+    const timer = this._timer
+    if (timer === null || timer.paused) {
+      return
+    }
+    const idleMinutes = getIdleMinutes()
+    if (idleMinutes > 0 && Date.now() - timer.lastActive >= idleMinutes * MINUTE) {
+      await this.setTimer({ ...timer, paused: true })
+      await this.logTime(timer, timer.lastActive)
+    } else {
+      await this._workspaceState.update(STATE_KEY, timer)
+    }
+  }
+
+  private async setTimer (timer: RunningTimer | null): Promise<void> {
+    this._timer = timer
+    this._onDidChange.fire(timer)
+    await this._workspaceState.update(STATE_KEY, timer ?? undefined)
+  }
+
+  // Add an entry to a task's time log
+  private async logTime (timer: RunningTimer, end: number): Promise<void> {
+    if (end <= timer.start) {
+      return
+    }
+    const kanbn = this._getKanbn(timer.boardLocation)
+    try {
+      if (kanbn === undefined) {
+        throw new Error(`Board '${timer.boardLocation}' isn't open.`)
+      }
+      const task = await kanbn.getTask(timer.taskId)
+      task.metadata.timeLog = [
+        ...(task.metadata.timeLog ?? []),
+        { start: new Date(timer.start), end: new Date(end) }
+      ]
+      await kanbn.updateTask(timer.taskId, task)
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(
+          `Couldn't log ${formatDuration(end - timer.start)} for task '${timer.taskName}': ${e.message}`
+        )
+      } else {
+        throw e
+      }
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+import { findTaskReferences, ReferencedTask } from './KanbnTaskReferenceProvider'
+
+const DEFAULT_TODO_TAGS = ['TODO', 'FIXME', 'HACK']
+
+// Limits on how much of the workspace is scanned, so that large workspaces and large generated or data files don't
+// slow VS Code down
+const MAX_FILES = 10000
+const MAX_FILE_SIZE = 1024 * 1024
+
+// A TODO comment found in a file
+export interface TodoComment {
+  uri: vscode.Uri
+  line: number
+  tag: string
+  // The character on the line just after the tag
+  tagEnd: number
+  text: string
+  // The IDs of the tasks that the comment references
+  taskIds: string[]
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Find comments that start with one of the TODO tags in some text. The tag has to follow a comment marker such as
+// '//', '#', '/*', '<!--', '--' or ';', or a '*' at the start of a line in a block comment, so that tags in strings,
+// names like 'TODO_LIST' and ordinary text aren't picked up. Tags are matched case-sensitively for the same reason.
+export const findTodos = (uri: vscode.Uri, text: string): TodoComment[] => {
+  const tags = vscode.workspace.getConfiguration('kanbn').get<string[]>('todoTags') ?? DEFAULT_TODO_TAGS
+  if (tags.length === 0) {
+    return []
+  }
+  const pattern = new RegExp(
+    `(?:\\/\\/|\\/\\*|#|<!--|--|;|^\\s*\\*)[\\s*/!#;-]*(${tags.map(escapeRegExp).join('|')})(?![\\w-])(?:\\([^)]*\\))?:?\\s*(.*)$`
+  )
+  return text.split(/\r?\n/).flatMap((line, lineNumber) => {
+    const match = pattern.exec(line)
+    if (match === null) {
+      return []
+    }
+    return [{
+      uri,
+      line: lineNumber,
+      tag: match[1],
+      tagEnd: match.index + match[0].indexOf(match[1]) + match[1].length,
+      // Remove the end of block comments, e.g. '*/' or '-->'
+      text: match[2].replace(/\s*(\*\/|-->|%>|#})\s*$/, '').trim(),
+      taskIds: findTaskReferences(line).map(reference => reference.taskId)
+    }]
+  })
+}
+
+// Create a task from a TODO comment, and add a reference to the new task after the comment's tag. The task goes in
+// the board's first column. Returns the new task's ID, or null if there's no TODO comment on the line.
+export const createTaskFromTodo = async (kanbn: Kanbn, uri: vscode.Uri, line: number): Promise<string | null> => {
+  const document = await vscode.workspace.openTextDocument(uri)
+  const todo = findTodos(uri, document.getText()).find(todo => todo.line === line)
+  if (todo === undefined) {
+    return null
+  }
+  const index = await kanbn.getIndex()
+  const firstColumn = Object.keys(index.columns)[0]
+  if (firstColumn === undefined) {
+    throw new Error('The board has no columns.')
+  }
+
+  // Task IDs come from task names, so tasks with a name that's already taken get a number added to their name
+  const baseName = todo.text !== '' ? todo.text : `${todo.tag} in ${vscode.workspace.asRelativePath(uri)}`
+  const taskIds = new Set<string>([
+    ...Object.values(index.columns as Record<string, string[]>).flat(),
+    ...await kanbn.listArchivedTasks()
+  ])
+  let name = baseName
+  for (let i = 2; taskIds.has(paramCase(name)); i++) {
+    name = `${baseName} (${i})`
+  }
+
+  // The reference is written as 'kanbn:<task id>', so it has to be found by the task reference pattern. Otherwise the
+  // comment wouldn't be linked to the new task, and another task could be created from it.
+  const newTaskId: string = paramCase(name)
+  const reference = `kanbn:${newTaskId}`
+  if (!findTaskReferences(reference).some(({ taskId }) => taskId === newTaskId)) {
+    throw new Error(
+      `A reference to the task can't be added to the comment because the 'kanbn.taskReferencePattern' setting doesn't match '${reference}'.`
+    )
+  }
+  const taskId: string = await kanbn.createTask(
+    {
+      name,
+      description: `Created from a ${todo.tag} comment in \`${vscode.workspace.asRelativePath(uri)}\` on line ${line + 1}.`,
+      metadata: {
+        created: new Date(),
+        tags: [todo.tag.toLowerCase()]
+      },
+      subTasks: [],
+      relations: [],
+      comments: []
+    },
+    firstColumn
+  )
+
+  const edit = new vscode.WorkspaceEdit()
+  edit.insert(uri, new vscode.Position(line, todo.tagEnd), `(kanbn:${taskId})`)
+  await vscode.workspace.applyEdit(edit)
+  return taskId
+}
+
+// A tree item representing a file containing TODO comments, or a TODO comment in a file
+export class KanbnTodoTreeItem extends vscode.TreeItem {
+  constructor (
+    public readonly kind: 'file' | 'todo',
+    public readonly uri: vscode.Uri,
+    label: string,
+    collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly todo: TodoComment | null = null
+  ) {
+    super(label, collapsibleState)
+  }
+}
+
+// Finds TODO comments in the workspace, lists them in a view, and adds a 'Create Kanbn task' CodeLens above each
+// comment that doesn't already reference a task
+export default class KanbnTodoProvider implements vscode.TreeDataProvider<KanbnTodoTreeItem>, vscode.CodeLensProvider {
+  public static readonly selector: vscode.DocumentSelector = { scheme: 'file' }
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<KanbnTodoTreeItem | undefined>()
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>()
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event
+  private readonly _getTasks: (taskId: string) => Promise<ReferencedTask[]>
+  // TODO comments by file path
+  private _todos = new Map<string, TodoComment[]>()
+
+  constructor (getTasks: (taskId: string) => Promise<ReferencedTask[]>) {
+    this._getTasks = getTasks
+  }
+
+  public getTodos (): TodoComment[] {
+    return [...this._todos.values()].flat()
+  }
+
+  // Scan the files in the workspace that match the include and exclude globs. Files larger than 1 MB are skipped,
+  // and at most 10,000 files are scanned.
+  public async scan (): Promise<void> {
+    const configuration = vscode.workspace.getConfiguration('kanbn')
+    const uris = await vscode.workspace.findFiles(
+      configuration.get<string>('todoInclude') ?? '**/*',
+      configuration.get<string>('todoExclude') ?? null,
+      MAX_FILES
+    )
+    const todos = new Map<string, TodoComment[]>()
+    for (const uri of uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+      let text: string
+      try {
+        if ((await fs.promises.stat(uri.fsPath)).size > MAX_FILE_SIZE) {
+          continue
+        }
+        text = await fs.promises.readFile(uri.fsPath, 'utf-8')
+      } catch (e) {
+        continue
+      }
+
+      // Skip binary files
+      if (text.includes('\u0000')) {
+        continue
+      }
+      const fileTodos = findTodos(uri, text)
+      if (fileTodos.length > 0) {
+        todos.set(uri.fsPath, fileTodos)
+      }
+    }
+    this._todos = todos
+    this.refresh()
+  }
+
+  // Scan a document again after it has been saved
+  public updateDocument (document: vscode.TextDocument): void {
+    const configuration = vscode.workspace.getConfiguration('kanbn')
+    const exclude = configuration.get<string>('todoExclude')
+    if (
+      vscode.languages.match({ scheme: 'file', pattern: configuration.get<string>('todoInclude') ?? '**/*' }, document) === 0 ||
+      (exclude !== undefined && exclude !== '' && vscode.languages.match({ pattern: exclude }, document) > 0)
+    ) {
+      return
+    }
+    const fileTodos = findTodos(document.uri, document.getText())
+    if (fileTodos.length > 0) {
+      this._todos.set(document.uri.fsPath, fileTodos)
+    } else {
+      this._todos.delete(document.uri.fsPath)
+    }
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  public refresh (): void {
+    this._onDidChangeTreeData.fire(undefined)
+    this._onDidChangeCodeLenses.fire()
+  }
+
+  public getTreeItem (element: KanbnTodoTreeItem): vscode.TreeItem {
+    return element
+  }
+
+  public async getChildren (element?: KanbnTodoTreeItem): Promise<KanbnTodoTreeItem[]> {
+    if (element === undefined) {
+      return [...this._todos.entries()].map(([filePath, todos]) => {
+        const uri = vscode.Uri.file(filePath)
+        const item = new KanbnTodoTreeItem(
+          'file',
+          uri,
+          vscode.workspace.asRelativePath(uri),
+          vscode.TreeItemCollapsibleState.Expanded
+        )
+        item.resourceUri = uri
+        item.description = `${todos.length}`
+        return item
+      })
+    }
+    if (element.kind !== 'file') {
+      return []
+    }
+    return await Promise.all((this._todos.get(element.uri.fsPath) ?? []).map(async todo => {
+      const item = new KanbnTodoTreeItem(
+        'todo',
+        todo.uri,
+        `${todo.tag}: ${todo.text}`,
+        vscode.TreeItemCollapsibleState.None,
+        todo
+      )
+      item.description = `Line ${todo.line + 1}`
+      if (todo.taskIds.length > 0) {
+        const tasks = (await Promise.all(todo.taskIds.map(async taskId => await this._getTasks(taskId)))).flat()
+        const completed = tasks.length > 0 && tasks.every(task => task.completed)
+        item.iconPath = new vscode.ThemeIcon(completed ? 'pass' : 'link')
+        item.tooltip = tasks.length > 0
+          ? tasks.map(task => `${task.task.name as string} (${completed ? 'completed' : task.task.column as string})`).join('\n')
+          : `Task${todo.taskIds.length === 1 ? '' : 's'} ${todo.taskIds.join(', ')} not found`
+        item.contextValue = 'kanbnLinkedTodo'
+      } else {
+        item.iconPath = new vscode.ThemeIcon('circle-outline')
+        item.contextValue = 'kanbnTodo'
+      }
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open file',
+        arguments: [todo.uri, { selection: new vscode.Range(todo.line, 0, todo.line, 0) }]
+      }
+      return item
+    }))
+  }
+
+  public provideCodeLenses (document: vscode.TextDocument): vscode.CodeLens[] {
+    // Task files can mention TODOs too, but a task can't be created from a task
+    if (document.uri.fsPath.split(path.sep).includes('.kanbn')) {
+      return []
+    }
+    return findTodos(document.uri, document.getText())
+      .filter(todo => todo.taskIds.length === 0)
+      .map(todo => new vscode.CodeLens(new vscode.Range(todo.line, 0, todo.line, 0), {
+        title: 'Create Kanbn task',
+        command: 'kanbn.createTaskFromTodo',
+        arguments: [document.uri, todo.line]
+      }))
+  }
+}
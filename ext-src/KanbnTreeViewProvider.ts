@@ -0,0 +1,137 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+// A tree item representing a board, a column in a board, or a task in a column
+export class KanbnTreeItem extends vscode.TreeItem {
+  constructor (
+    public readonly kind: 'board' | 'column' | 'task',
+    public readonly boardLocation: string,
+    label: string,
+    collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly columnName: string | null = null,
+    public readonly taskId: string | null = null,
+    public readonly tasks: any[] = []
+  ) {
+    super(label, collapsibleState)
+    this.contextValue = `kanbn${kind.charAt(0).toUpperCase()}${kind.slice(1)}`
+  }
+}
+
+export default class KanbnTreeViewProvider implements vscode.TreeDataProvider<KanbnTreeItem> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<KanbnTreeItem | undefined>()
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private readonly _boardCache: Map<string, { kanbn: Kanbn }>
+
+  constructor (boardCache: Map<string, { kanbn: Kanbn }>) {
+    this._boardCache = boardCache
+  }
+
+  public refresh (): void {
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  public getTreeItem (element: KanbnTreeItem): vscode.TreeItem {
+    return element
+  }
+
+  public async getChildren (element?: KanbnTreeItem): Promise<KanbnTreeItem[]> {
+    if (element === undefined) {
+      return await this.getBoardItems()
+    }
+    switch (element.kind) {
+      case 'board':
+        return await this.getColumnItems(element.boardLocation)
+      case 'column':
+        return element.tasks.map(task => {
+          const item = new KanbnTreeItem(
+            'task',
+            element.boardLocation,
+            task.name,
+            vscode.TreeItemCollapsibleState.None,
+            element.columnName,
+            task.id
+          )
+          item.description = task.metadata.assigned ?? ''
+          item.tooltip = task.id
+          item.iconPath = new vscode.ThemeIcon('note')
+          item.command = {
+            command: 'kanbn.openTask',
+            title: 'Open task',
+            arguments: [item]
+          }
+          return item
+        })
+      default:
+        return []
+    }
+  }
+
+  private async getBoardItems (): Promise<KanbnTreeItem[]> {
+    const items: KanbnTreeItem[] = []
+    for (const [boardLocation, kanbnTuple] of this._boardCache) {
+      let index: any
+      try {
+        index = await kanbnTuple.kanbn.getIndex()
+      } catch (e) {
+        // The tree is refreshed whenever the board's files change, so the error is shown on the board's item instead
+        // of in a notification. The details are in the problems panel.
+        if (!(e instanceof Error)) {
+          throw e
+        }
+        const item = new KanbnTreeItem('board', boardLocation, path.basename(boardLocation), vscode.TreeItemCollapsibleState.None)
+        item.description = "Couldn't load board"
+        item.tooltip = `${boardLocation}\n${e.message}`
+        item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'))
+        items.push(item)
+        continue
+      }
+      const taskCount = Object.values(index.columns as Record<string, string[]>).reduce((count, column) => count + column.length, 0)
+      const item = new KanbnTreeItem('board', boardLocation, index.name, vscode.TreeItemCollapsibleState.Collapsed)
+      item.description = `${taskCount}`
+      item.tooltip = boardLocation
+      item.iconPath = new vscode.ThemeIcon('project')
+      items.push(item)
+    }
+    return items
+  }
+
+  private async getColumnItems (boardLocation: string): Promise<KanbnTreeItem[]> {
+    const kanbnTuple = this._boardCache.get(boardLocation)
+    if (kanbnTuple === undefined) {
+      return []
+    }
+    let index: any
+    let tasks: Record<string, any>
+    try {
+      index = await kanbnTuple.kanbn.getIndex()
+      tasks = Object.fromEntries((await kanbnTuple.kanbn.loadAllTrackedTasks(index)).map(task => [task.id, task]))
+    } catch (e) {
+      // Problems loading the board are reported in the problems panel
+      return []
+    }
+    const startedColumns: string[] = index.options.startedColumns ?? []
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    return Object.entries(index.columns as Record<string, string[]>).map(([columnName, taskIds]) => {
+      const columnTasks = taskIds.filter(taskId => taskId in tasks).map(taskId => tasks[taskId])
+      const item = new KanbnTreeItem(
+        'column',
+        boardLocation,
+        columnName,
+        columnTasks.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        columnName,
+        null,
+        columnTasks
+      )
+      item.description = `${columnTasks.length}`
+      if (startedColumns.includes(columnName)) {
+        item.iconPath = new vscode.ThemeIcon('play')
+      } else if (completedColumns.includes(columnName)) {
+        item.iconPath = new vscode.ThemeIcon('check')
+      } else {
+        item.iconPath = new vscode.ThemeIcon('list-unordered')
+      }
+      return item
+    })
+  }
+}
@@ -3,21 +3,125 @@ import * as path from 'path'
 import KanbnStatusBarItem from './KanbnStatusBarItem'
 import KanbnBoardPanel from './KanbnBoardPanel'
 import KanbnBurndownPanel from './KanbnBurndownPanel'
+import KanbnCalendarPanel from './KanbnCalendarPanel'
+import KanbnTimelinePanel from './KanbnTimelinePanel'
+import KanbnMetricsPanel from './KanbnMetricsPanel'
+import KanbnGraphPanel from './KanbnGraphPanel'
+import KanbnJournal from './KanbnJournal'
+import KanbnRecurrence from './KanbnRecurrence'
+import KanbnSprints from './KanbnSprints'
+import KanbnGit from './KanbnGit'
+import KanbnTimer from './KanbnTimer'
+import KanbnReminders from './KanbnReminders'
+import KanbnDiagnostics, { KanbnDiagnosticsActionProvider } from './KanbnDiagnostics'
+import { exportBoard } from './KanbnExport'
+import { importTasks } from './KanbnImport'
+import KanbnTreeViewProvider, { KanbnTreeItem } from './KanbnTreeViewProvider'
+import KanbnTaskLanguageProvider from './KanbnTaskLanguageProvider'
+import KanbnTaskReferenceProvider from './KanbnTaskReferenceProvider'
+import KanbnTodoProvider, { KanbnTodoTreeItem, createTaskFromTodo } from './KanbnTodoProvider'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 import * as fs from 'fs'
 
+// The task timer, kept here so that it can be suspended when the extension is deactivated
+let activeKanbnTimer: KanbnTimer | null = null
+
 export async function activate (context: vscode.ExtensionContext): Promise<void> {
   const kanbnStatusBarItem: KanbnStatusBarItem = new KanbnStatusBarItem(context, null)
   const boardCache = new Map<string, KanbnTuple>()
+  const kanbnTreeViewProvider = new KanbnTreeViewProvider(boardCache)
+  context.subscriptions.push(vscode.window.registerTreeDataProvider('kanbn.boards', kanbnTreeViewProvider))
+  const diagnosticCollection = vscode.languages.createDiagnosticCollection('kanbn')
+  context.subscriptions.push(diagnosticCollection)
+  context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+    { scheme: 'file', pattern: '**/.kanbn/**/*.md' },
+    new KanbnDiagnosticsActionProvider(),
+    { providedCodeActionKinds: KanbnDiagnosticsActionProvider.providedCodeActionKinds }
+  ))
+
+  // Add completion, hovers, go-to-definition and an outline to task files that are edited as text
+  const kanbnTaskLanguageProvider = new KanbnTaskLanguageProvider(boardLocation => boardCache.get(boardLocation)?.kanbn)
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(KanbnTaskLanguageProvider.selector, kanbnTaskLanguageProvider, ' ', '('),
+    vscode.languages.registerHoverProvider(KanbnTaskLanguageProvider.selector, kanbnTaskLanguageProvider),
+    vscode.languages.registerDefinitionProvider(KanbnTaskLanguageProvider.selector, kanbnTaskLanguageProvider),
+    vscode.languages.registerDocumentSymbolProvider(KanbnTaskLanguageProvider.selector, kanbnTaskLanguageProvider)
+  )
+
+  // Link task references in other files, such as '// kanbn:some-task' in source code, to the referenced task
+  const kanbnTaskReferenceProvider = new KanbnTaskReferenceProvider(
+    () => [...boardCache.entries()].map(([boardLocation, kanbnTuple]) => ({ boardLocation, kanbn: kanbnTuple.kanbn })),
+    diagnosticCollection
+  )
+  context.subscriptions.push(
+    vscode.languages.registerDocumentLinkProvider(KanbnTaskReferenceProvider.selector, kanbnTaskReferenceProvider),
+    vscode.languages.registerHoverProvider(KanbnTaskReferenceProvider.selector, kanbnTaskReferenceProvider),
+    vscode.workspace.onDidOpenTextDocument(document => { void kanbnTaskReferenceProvider.updateDiagnostics(document) }),
+    vscode.workspace.onDidChangeTextDocument(e => { void kanbnTaskReferenceProvider.updateDiagnostics(e.document) }),
+    vscode.workspace.onDidCloseTextDocument(document => { kanbnTaskReferenceProvider.clearDiagnostics(document) }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('kanbn.taskReferencePattern')) {
+        kanbnTaskReferenceProvider.refresh()
+      }
+    })
+  )
+
+  // List TODO comments in the workspace, and add a CodeLens above each one for creating a task from it
+  const kanbnTodoProvider = new KanbnTodoProvider(async taskId => await kanbnTaskReferenceProvider.getTasks(taskId))
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('kanbn.todos', kanbnTodoProvider),
+    vscode.languages.registerCodeLensProvider(KanbnTodoProvider.selector, kanbnTodoProvider),
+    vscode.workspace.onDidSaveTextDocument(document => { kanbnTodoProvider.updateDocument(document) }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (
+        e.affectsConfiguration('kanbn.todoTags') ||
+        e.affectsConfiguration('kanbn.todoInclude') ||
+        e.affectsConfiguration('kanbn.todoExclude') ||
+        e.affectsConfiguration('kanbn.taskReferencePattern')
+      ) {
+        void kanbnTodoProvider.scan()
+      }
+    })
+  )
+  void kanbnTodoProvider.scan()
+
+  // Time work on tasks, and show the running timer in the status bar and on the boards
+  const kanbnTimer = new KanbnTimer(context.workspaceState, boardLocation => boardCache.get(boardLocation)?.kanbn)
+  activeKanbnTimer = kanbnTimer
+  kanbnTimer.watch(context.subscriptions)
+  context.subscriptions.push(kanbnTimer.onDidChange(timer => {
+    kanbnStatusBarItem.setTimer(timer)
+    const kanbnTuple = timer !== null ? boardCache.get(timer.boardLocation) : undefined
+    if (kanbnTuple !== undefined) {
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    }
+    for (const [, kanbnTuple] of boardCache) {
+      void kanbnTuple.kanbnBoardPanel.update()
+    }
+  }))
   class KanbnTuple {
     kanbn: Kanbn
     kanbnBoardPanel: KanbnBoardPanel
     kanbnBurnDownPanel: KanbnBurndownPanel
+    kanbnCalendarPanel: KanbnCalendarPanel
+    kanbnTimelinePanel: KanbnTimelinePanel
+    kanbnMetricsPanel: KanbnMetricsPanel
+    kanbnGraphPanel: KanbnGraphPanel
+    kanbnJournal: KanbnJournal
+    kanbnRecurrence: KanbnRecurrence
+    kanbnSprints: KanbnSprints
+    kanbnDiagnostics: KanbnDiagnostics
+    kanbnGit: KanbnGit
     constructor (boardLocation: string) {
       if (vscode.workspace.workspaceFolders == null) {
         throw new Error('A workspace folder should be open when creating Kanbn board panels')
       }
       this.kanbn = new Kanbn(boardLocation)
+      this.kanbnJournal = new KanbnJournal(this.kanbn)
+      this.kanbnRecurrence = new KanbnRecurrence(this.kanbn)
+      this.kanbnSprints = new KanbnSprints(this.kanbn)
+      this.kanbnDiagnostics = new KanbnDiagnostics(this.kanbn, boardLocation, diagnosticCollection)
+      this.kanbnGit = new KanbnGit(this.kanbn, boardLocation, this.kanbnJournal)
       this.kanbnBurnDownPanel = KanbnBurndownPanel.create(
         context.extensionPath,
         vscode.workspace.workspaceFolders[0].uri.fsPath,
@@ -28,7 +132,50 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
         vscode.workspace.workspaceFolders[0].uri.fsPath,
         this.kanbn,
         boardLocation,
-        this.kanbnBurnDownPanel)
+        this.kanbnBurnDownPanel,
+        this.kanbnJournal,
+        this.kanbnSprints,
+        this.kanbnGit,
+        kanbnTimer)
+      this.kanbnCalendarPanel = KanbnCalendarPanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        this.kanbnBoardPanel,
+        this.kanbnJournal)
+      this.kanbnTimelinePanel = KanbnTimelinePanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        this.kanbnBoardPanel,
+        this.kanbnJournal)
+      this.kanbnMetricsPanel = KanbnMetricsPanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        this.kanbnBoardPanel)
+      this.kanbnGraphPanel = KanbnGraphPanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        this.kanbnBoardPanel)
+    }
+
+    // Close the board's panels and clear its problems. This is used when the board is no longer tracked, so that
+    // nothing keeps writing to it.
+    dispose (): void {
+      this.kanbnBoardPanel.dispose()
+      this.kanbnBurnDownPanel.dispose()
+      this.kanbnCalendarPanel.dispose()
+      this.kanbnTimelinePanel.dispose()
+      this.kanbnMetricsPanel.dispose()
+      this.kanbnGraphPanel.dispose()
+      this.kanbnDiagnostics.dispose()
+      kanbnStatusBarItem.setCurrentTask(this.kanbn, null)
     }
   }
 
@@ -48,6 +195,62 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     return item
   }
 
+  // The watchers for each board, so that they can be disposed if the board is replaced or removed. Otherwise the old
+  // watchers would keep updating the replaced board, and could run its recurrence processing alongside the new one.
+  const boardWatchers = new Map<string, vscode.Disposable[]>()
+  context.subscriptions.push({
+    dispose: () => {
+      for (const boardLocation of [...boardWatchers.keys()]) {
+        disposeFileWatcher(boardLocation)
+      }
+    }
+  })
+
+  function disposeFileWatcher (boardLocation: string): void {
+    for (const disposable of boardWatchers.get(boardLocation) ?? []) {
+      disposable.dispose()
+    }
+    boardWatchers.delete(boardLocation)
+  }
+
+  function initialiseFileWatcher (boardLocation: string, kanbnTuple: KanbnTuple): void {
+    disposeFileWatcher(boardLocation)
+    const disposables: vscode.Disposable[] = []
+    boardWatchers.set(boardLocation, disposables)
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(`${boardLocation}/.kanbn`), '**')
+    )
+    disposables.push(fileWatcher)
+    fileWatcher.onDidChange(() => {
+      void kanbnTuple.kanbnRecurrence.process()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+      void kanbnTuple.kanbnBoardPanel.update()
+      void kanbnTuple.kanbnBurnDownPanel.update()
+      void kanbnTuple.kanbnCalendarPanel.update()
+      void kanbnTuple.kanbnTimelinePanel.update()
+      void kanbnTuple.kanbnMetricsPanel.update()
+      void kanbnTuple.kanbnGraphPanel.update()
+      void kanbnTuple.kanbnDiagnostics.validate()
+      kanbnTaskReferenceProvider.refresh()
+      kanbnTodoProvider.refresh()
+      kanbnTreeViewProvider.refresh()
+    })
+
+    // Task files being added or removed can make the index and task files disagree
+    fileWatcher.onDidCreate(() => { void kanbnTuple.kanbnDiagnostics.validate() })
+    fileWatcher.onDidDelete(() => { void kanbnTuple.kanbnDiagnostics.validate() })
+
+    // Show the task that the current git branch is for in the status bar. Only the board that has the branch's task
+    // switches the status bar to itself, so that other boards in the same repository don't take it over.
+    disposables.push(kanbnTuple.kanbnGit.onDidChangeCurrentTask(currentTask => {
+      kanbnStatusBarItem.setCurrentTask(kanbnTuple.kanbn, currentTask)
+      if (currentTask !== null) {
+        void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+      }
+    }))
+    void kanbnTuple.kanbnGit.watch(disposables)
+  }
+
   function populateBoardCache (): void {
     const boardLocations = new Set<string>()
 
@@ -76,23 +279,44 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
         }
       }
     }
+    // Forget boards that are no longer configured
+    for (const boardLocation of [...boardCache.keys()].filter(boardLocation => !boardLocations.has(boardLocation))) {
+      disposeFileWatcher(boardLocation)
+      boardCache.get(boardLocation)?.dispose()
+      boardCache.delete(boardLocation)
+    }
     for (const boardLocation of boardLocations) {
+      // Boards that are already loaded keep their panels and undo history
+      if (boardCache.has(boardLocation)) {
+        continue
+      }
       const kanbnTuple = new KanbnTuple(boardLocation)
       boardCache.set(boardLocation, kanbnTuple)
-
-      // Initialise file watcher
-      const fileWatcher = vscode.workspace.createFileSystemWatcher(
-        new vscode.RelativePattern(vscode.Uri.file(`${boardLocation}/.kanbn`), '**')
-      )
-
-      fileWatcher.onDidChange(() => {
-        void kanbnStatusBarItem.update(kanbnTuple.kanbn)
-        void kanbnTuple.kanbnBoardPanel.update()
-        void kanbnTuple.kanbnBurnDownPanel.update()
-      })
+      initialiseFileWatcher(boardLocation, kanbnTuple)
+      void kanbnTuple.kanbnRecurrence.process()
+      void kanbnTuple.kanbnDiagnostics.validate()
     }
+    kanbnTaskReferenceProvider.refresh()
+    kanbnTreeViewProvider.refresh()
   }
   populateBoardCache()
+  void kanbnTimer.restore()
+
+  // Remind about tasks on any board that are overdue, due today or due soon
+  const kanbnReminders = new KanbnReminders(
+    context.globalState,
+    () => [...boardCache.entries()].map(([boardLocation, kanbnTuple]) => ({
+      boardLocation,
+      kanbn: kanbnTuple.kanbn,
+      kanbnJournal: kanbnTuple.kanbnJournal
+    }))
+  )
+  kanbnReminders.start(context.subscriptions)
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('kanbn.showDueDateReminders') || e.affectsConfiguration('kanbn.dueSoonDays')) {
+      void kanbnReminders.check()
+    }
+  }))
 
   // Register a command to initialise Kanbn in the current workspace. This command will be invoked when the status
   // bar item is clicked in a workspace where Kanbn isn't already initialised.
@@ -125,19 +349,12 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
         }
         fs.mkdirSync(boardLocation, { recursive: true })
         kanbnTuple = new KanbnTuple(boardLocation)
-        void kanbnTuple.kanbn.initialise({
+        await kanbnTuple.kanbn.initialise({
           name: boardName
         })
-        // Initialise file watcher
-        const fileWatcher = vscode.workspace.createFileSystemWatcher(
-          new vscode.RelativePattern(vscode.workspace.workspaceFolders[0], `.kanbn_boards/${boardName}/**.*`)
-        )
-        fileWatcher.onDidChange(() => {
-          void kanbnStatusBarItem.update(kanbnTuple.kanbn)
-          void kanbnTuple.kanbnBoardPanel.update()
-          void kanbnTuple.kanbnBurnDownPanel.update()
-        })
-        boardCache.set(boardName, kanbnTuple)
+        initialiseFileWatcher(boardLocation, kanbnTuple)
+        boardCache.set(boardLocation, kanbnTuple)
+        kanbnTreeViewProvider.refresh()
         void vscode.window.showInformationMessage(`Created Kanbn board '${boardLocation}'.`)
         break
       }
@@ -147,8 +364,8 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
   // Register a command to open the kanbn board. This command will be invoked when the status bar item is clicked
   // in a workspace where kanbn has already been initialised.
   context.subscriptions.push(
-    vscode.commands.registerCommand('kanbn.openBoard', async () => {
-      const board = await chooseBoard()
+    vscode.commands.registerCommand('kanbn.openBoard', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
       if (board === undefined) { return }
 
       const kanbnTuple = boardCache.get(board)
@@ -160,11 +377,37 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     })
   )
 
+  // Register a command to open a board with one of its saved views applied.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.applyView', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      const index = await kanbnTuple.kanbn.getIndex()
+      const views: Array<{ name: string, filter?: string }> = index.options.views ?? []
+      if (views.length === 0) {
+        void vscode.window.showInformationMessage('This board has no saved views.')
+        return
+      }
+      const view = await vscode.window.showQuickPick(
+        views.map(view => ({ label: view.name, detail: view.filter })),
+        { placeHolder: 'Select a view to apply', canPickMany: false }
+      )
+      if (view !== undefined) {
+        await kanbnTuple.kanbnBoardPanel.applyView(view.label)
+        void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+      }
+    })
+  )
+
   // Register a command to add a new kanbn task.
   context.subscriptions.push(
-    vscode.commands.registerCommand('kanbn.addTask', async () => {
+    vscode.commands.registerCommand('kanbn.addTask', async (item?: KanbnTreeItem) => {
       // Choose board to add task to
-      const board = await chooseBoard()
+      const board = item?.boardLocation ?? await chooseBoard()
       if (board === undefined) return
 
       // Set the node process directory and import kanbn
@@ -172,13 +415,27 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
       if (kanbnTuple === undefined) { return }
 
       // Open the task webview
-      kanbnTuple.kanbnBoardPanel.showTaskPanel(null)
+      try {
+        await kanbnTuple.kanbnBoardPanel.addTask(item?.columnName ?? null)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(e.message)
+        } else {
+          throw e
+        }
+      }
     })
   )
 
   // Register a command to open an existing kanbn task.
   context.subscriptions.push(
-    vscode.commands.registerCommand('kanbn.openTask', async () => {
+    vscode.commands.registerCommand('kanbn.openTask', async (item?: KanbnTreeItem) => {
+      // Open the task directly if it was picked from the boards view
+      if (item?.taskId != null) {
+        boardCache.get(item.boardLocation)?.kanbnBoardPanel.showTaskPanel(item.taskId, item.columnName)
+        return
+      }
+
       // If no workspace folder is opened, we can't open a task
       if (vscode.workspace.workspaceFolders === undefined) {
         void vscode.window.showErrorMessage('You need to open a workspace before opening a task.')
@@ -240,38 +497,328 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     })
   )
 
-  // Register a command to archive tasks.
+  // Register a command to open a calendar of task dates.
   context.subscriptions.push(
-    vscode.commands.registerCommand('kanbn.archiveTasks', async () => {
+    vscode.commands.registerCommand('kanbn.calendar', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnCalendarPanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to open a timeline of task durations and dependencies.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.timeline', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnTimelinePanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to open flow metrics, such as lead time, cycle time and throughput.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.metrics', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnMetricsPanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to open a graph of the relations between tasks.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.graph', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnGraphPanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register commands to start, plan and close sprints.
+  for (const action of ['start', 'plan', 'close'] as const) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`kanbn.${action}Sprint`, async (item?: KanbnTreeItem) => {
+        const board = item?.boardLocation ?? await chooseBoard()
+        if (board === undefined) return
+
+        const kanbnTuple = boardCache.get(board)
+        if (kanbnTuple === undefined) return
+
+        try {
+          await kanbnTuple.kanbnSprints[action]()
+        } catch (e) {
+          if (e instanceof Error) {
+            void vscode.window.showErrorMessage(e.message)
+          } else {
+            throw e
+          }
+        }
+        void kanbnTuple.kanbnBurnDownPanel.update()
+      })
+    )
+  }
+
+  // Register a command to export a board to a file.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.exportBoard', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      try {
+        await exportBoard(kanbnTuple.kanbn, board, context.extensionPath)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't export the board: ${e.message}`)
+        } else {
+          throw e
+        }
+      }
+    })
+  )
+
+  // Register a command to import tasks from another tool.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.importTasks', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      try {
+        await importTasks(kanbnTuple.kanbn)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't import tasks: ${e.message}`)
+        } else {
+          throw e
+        }
+      }
+      kanbnTreeViewProvider.refresh()
+      void kanbnTuple.kanbnBoardPanel.update()
+    })
+  )
+
+  // Register a command to open a task from a task reference link in another file.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.openTaskReference', (boardLocation: string, taskId: string, columnName: string) => {
+      boardCache.get(boardLocation)?.kanbnBoardPanel.showTaskPanel(taskId, columnName)
+    })
+  )
+
+  // Register a command to add a task file that isn't in the index to one of the board's columns. This is used by the
+  // quick fix for untracked tasks in the problems panel.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.addUntrackedTask', async (boardLocation: string, taskId: string) => {
+      const kanbnTuple = boardCache.get(boardLocation)
+      if (kanbnTuple === undefined) return
+
+      try {
+        const index = await kanbnTuple.kanbn.getIndex()
+        const columnName = await vscode.window.showQuickPick(Object.keys(index.columns), {
+          placeHolder: `Select a column for '${taskId}'`,
+          canPickMany: false
+        })
+        if (columnName === undefined) return
+        await kanbnTuple.kanbn.addUntrackedTaskToIndex(taskId, columnName)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(e.message)
+        } else {
+          throw e
+        }
+      }
+      kanbnTreeViewProvider.refresh()
+      void kanbnTuple.kanbnBoardPanel.update()
+    })
+  )
+
+  // Register a command to scan the workspace for TODO comments again.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.scanTodos', async () => {
+      await kanbnTodoProvider.scan()
+    })
+  )
+
+  // Register a command to create a task from a TODO comment. This is used by the CodeLens above each comment and by
+  // the TODO comments view.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.createTaskFromTodo', async (target: vscode.Uri | KanbnTodoTreeItem, line?: number) => {
+      const uri = target instanceof KanbnTodoTreeItem ? target.uri : target
+      const todoLine = target instanceof KanbnTodoTreeItem ? target.todo?.line : line
+      if (todoLine === undefined) return
+
       const board = await chooseBoard()
       if (board === undefined) return
 
       const kanbnTuple = boardCache.get(board)
       if (kanbnTuple === undefined) return
 
-      // Get a list of tracked tasks
-      let tasks: string[] = []
       try {
-        tasks = [...await kanbnTuple.kanbn.findTrackedTasks()]
-      } catch (e) {}
-      if (tasks.length === 0) {
-        void vscode.window.showInformationMessage('There are no tasks to archive.')
+        const taskId = await createTaskFromTodo(kanbnTuple.kanbn, uri, todoLine)
+        if (taskId === null) {
+          void vscode.window.showErrorMessage('There is no TODO comment on this line.')
+          return
+        }
+        if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+          void vscode.window.showInformationMessage(`Created task '${taskId}'.`)
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't create a task: ${e.message}`)
+        } else {
+          throw e
+        }
+      }
+      kanbnTreeViewProvider.refresh()
+      void kanbnTuple.kanbnBoardPanel.update()
+    })
+  )
+
+  // Register a command to list TODO comments that reference tasks which have already been completed.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.completedTodos', async () => {
+      await kanbnTodoProvider.scan()
+      const items: Array<vscode.QuickPickItem & { uri: vscode.Uri, line: number }> = []
+      for (const todo of kanbnTodoProvider.getTodos()) {
+        const tasks = (await Promise.all(todo.taskIds.map(async taskId => await kanbnTaskReferenceProvider.getTasks(taskId)))).flat()
+        if (tasks.length > 0 && tasks.every(task => task.completed)) {
+          items.push({
+            label: `${todo.tag}: ${todo.text}`,
+            description: `${vscode.workspace.asRelativePath(todo.uri)}:${todo.line + 1}`,
+            detail: `Completed: ${tasks.map(task => task.task.name as string).join(', ')}`,
+            uri: todo.uri,
+            line: todo.line
+          })
+        }
+      }
+      if (items.length === 0) {
+        void vscode.window.showInformationMessage('There are no TODO comments for completed tasks.')
+        return
+      }
+      const item = await vscode.window.showQuickPick(items, {
+        placeHolder: `${items.length} TODO comment${items.length === 1 ? ' references a' : 's reference'} completed task${items.length === 1 ? '' : 's'}`,
+        matchOnDescription: true,
+        matchOnDetail: true
+      })
+      if (item !== undefined) {
+        await vscode.window.showTextDocument(item.uri, { selection: new vscode.Range(item.line, 0, item.line, 0) })
+      }
+    })
+  )
+
+  // Register a command to create and check out a git branch for a task.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.startWork', async (item?: KanbnTreeItem) => {
+      if (item?.taskId == null) return
+
+      const kanbnTuple = boardCache.get(item.boardLocation)
+      if (kanbnTuple === undefined) return
+
+      try {
+        await kanbnTuple.kanbnGit.startWork(item.taskId)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't start work on task: ${e.message}`)
+        } else {
+          throw e
+        }
+      }
+    })
+  )
+
+  // Register a command to start the timer for a task.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.startTimer', async (item?: KanbnTreeItem) => {
+      if (item?.taskId == null) return
+
+      try {
+        await kanbnTimer.start(item.boardLocation, item.taskId)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't start the timer: ${e.message}`)
+        } else {
+          throw e
+        }
+      }
+    })
+  )
+
+  // Register a command to stop the running timer and log the time on its task.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.stopTimer', async () => {
+      if (kanbnTimer.timer === null) {
+        void vscode.window.showInformationMessage('There is no timer running.')
         return
       }
+      await kanbnTimer.stop()
+    })
+  )
 
-      // Prompt for a selection of tasks to archive
-      const archiveTaskIds = await vscode.window.showQuickPick(
-        tasks,
-        {
-          placeHolder: 'Select tasks to archive...',
-          canPickMany: true
+  // Register a command to archive tasks.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.archiveTasks', async (item?: KanbnTreeItem) => {
+      const board = item?.boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      let archiveTaskIds: string[] | undefined
+      if (item?.taskId != null) {
+        // Archive the task that was picked from the boards view
+        archiveTaskIds = [item.taskId]
+      } else {
+        // Get a list of tracked tasks
+        let tasks: string[] = []
+        try {
+          tasks = [...await kanbnTuple.kanbn.findTrackedTasks()]
+        } catch (e) {}
+        if (tasks.length === 0) {
+          void vscode.window.showInformationMessage('There are no tasks to archive.')
+          return
         }
-      )
+
+        // Prompt for a selection of tasks to archive
+        archiveTaskIds = await vscode.window.showQuickPick(
+          tasks,
+          {
+            placeHolder: 'Select tasks to archive...',
+            canPickMany: true
+          }
+        )
+      }
       if (archiveTaskIds !== undefined && archiveTaskIds.length > 0) {
-        for (const archiveTaskId of archiveTaskIds) {
-          void kanbnTuple.kanbn.archiveTask(archiveTaskId)
-        }
+        const taskIds = archiveTaskIds
+        await kanbnTuple.kanbnJournal.batch(`Archive ${taskIds.length} task${taskIds.length === 1 ? '' : 's'}`, async () => {
+          for (const archiveTaskId of taskIds) {
+            await kanbnTuple.kanbnJournal.archiveTask(archiveTaskId)
+          }
+        })
         void kanbnTuple.kanbnBoardPanel.update()
+        kanbnTreeViewProvider.refresh()
         void kanbnStatusBarItem.update(kanbnTuple.kanbn)
         if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
           void vscode.window.showInformationMessage(
@@ -323,10 +870,13 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
           }
         )
         if (restoreColumn !== undefined) {
-          for (const restoreTaskId of restoreTaskIds) {
-            await kanbnTuple.kanbn.restoreTask(restoreTaskId, restoreColumn === 'None (use original)' ? null : restoreColumn)
-          }
+          await kanbnTuple.kanbnJournal.batch(`Restore ${restoreTaskIds.length} task${restoreTaskIds.length === 1 ? '' : 's'}`, async () => {
+            for (const restoreTaskId of restoreTaskIds) {
+              await kanbnTuple.kanbnJournal.restoreTask(restoreTaskId, restoreColumn === 'None (use original)' ? null : restoreColumn)
+            }
+          })
           void kanbnTuple.kanbnBoardPanel.update()
+          kanbnTreeViewProvider.refresh()
           void kanbnStatusBarItem.update(kanbnTuple.kanbn)
           if (vscode.workspace.getConfiguration('kanbn').get('showTaskNotifications') === true) {
             void vscode.window.showInformationMessage(
@@ -338,6 +888,58 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     })
   )
 
+  // Find the board that undo and redo should apply to. This is the focused board if there is one, otherwise the
+  // user is asked to pick a board.
+  async function chooseJournalBoard (): Promise<KanbnTuple | undefined> {
+    for (const [, kanbnTuple] of boardCache) {
+      if (kanbnTuple.kanbnBoardPanel.active) {
+        return kanbnTuple
+      }
+    }
+    const board = boardCache.size === 1 ? [...boardCache.keys()][0] : await chooseBoard()
+    return board === undefined ? undefined : boardCache.get(board)
+  }
+
+  // Register commands to undo and redo changes to a board.
+  for (const action of ['undo', 'redo'] as const) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(`kanbn.${action}`, async () => {
+        const kanbnTuple = await chooseJournalBoard()
+        if (kanbnTuple === undefined) return
+
+        let description: string | null
+        try {
+          description = await kanbnTuple.kanbnJournal[action]()
+        } catch (e) {
+          if (e instanceof Error) {
+            void vscode.window.showErrorMessage(`Couldn't ${action} the last change: ${e.message}`)
+            void kanbnTuple.kanbnBoardPanel.update()
+            return
+          } else {
+            throw e
+          }
+        }
+        if (description === null) {
+          void vscode.window.showInformationMessage(`There is nothing to ${action}.`)
+          return
+        }
+        void kanbnTuple.kanbnBoardPanel.update()
+        kanbnTreeViewProvider.refresh()
+        void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+        if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+          void vscode.window.showInformationMessage(`${action === 'undo' ? 'Undid' : 'Redid'}: ${description}`)
+        }
+      })
+    )
+  }
+
+  // Register a command to refresh the boards view.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.refreshBoards', () => {
+      kanbnTreeViewProvider.refresh()
+    })
+  )
+
   // Handle configuration changes.
   vscode.workspace.onDidChangeConfiguration((e) => {
     populateBoardCache()
@@ -347,3 +949,9 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     }
   })
 }
+
+// Log the time for a running timer when VS Code closes, instead of waiting for the time to be logged when VS Code
+// starts again
+export async function deactivate (): Promise<void> {
+  await activeKanbnTimer?.suspend()
+}
@@ -1,15 +1,37 @@
 /* eslint-disable @typescript-eslint/restrict-template-expressions */
 import { DragDropContext, Droppable } from 'react-beautiful-dnd'
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import TaskItem from './TaskItem'
+import { compileFilter, FilterSyntaxError } from './filter'
+import {
+  getLaneDroppableId,
+  getLaneLabel,
+  getLanes,
+  getTaskLanes,
+  moveTaskToLane,
+  parseLaneDroppableId
+} from './swimlanes'
+import { getBlockedTasks } from './relations'
 import { paramCase } from '@basementuniverse/kanbn/src/utility'
 import vscode from './vscode'
 import formatDate from 'dateformat'
 
 const zip = (a: any[], b: any[]): Array<[any, any]> => a.map((v: any, i: number): [any, any] => [v, b[i]])
 
+// Map a drop index in a column's visible (sorted and filtered) tasks to a position in the whole column. Neither list
+// should include the tasks that are being moved.
+const getDropPosition = (tasks: KanbnTask[], visibleTasks: KanbnTask[], index: number): number => {
+  if (index < visibleTasks.length) {
+    return tasks.findIndex(t => t.id === visibleTasks[index].id)
+  }
+  if (visibleTasks.length > 0) {
+    return tasks.findIndex(t => t.id === visibleTasks[visibleTasks.length - 1].id) + 1
+  }
+  return tasks.length
+}
+
 // Called when a task item has finished being dragged
-const onDragEnd = (result, columns, setColumns): void => {
+const onDragEnd = (result, columns, setColumns, getVisibleTasks): void => {
   // No destination means the item was dragged to an invalid location
   if (result.destination === undefined || result.destination === null) {
     return
@@ -18,159 +40,158 @@ const onDragEnd = (result, columns, setColumns): void => {
   // Get the source and destination columns
   const { source, destination } = result
 
-  // The item that was moved
-  let removed: KanbnTask
-
-  // The task was dragged from one column to another
-  if (source.droppableId !== destination.droppableId) {
-    const sourceItems = columns[source.droppableId]
-    const destItems = columns[destination.droppableId];
-    [removed] = sourceItems.splice(source.index, 1)
-    destItems.splice(destination.index, 0, removed)
-    setColumns({
-      ...columns,
-      [source.droppableId]: sourceItems,
-      [destination.droppableId]: destItems
-    })
+  // If the task was dragged to the same position that it currently occupies, don't move it (this will prevent
+  // unnecessarily setting the task's updated date)
+  if (source.droppableId === destination.droppableId && source.index === destination.index) {
+    return
+  }
 
-  // The task was dragged into the same column
-  } else {
-    // If the task was dragged to the same position that it currently occupies, don't move it (this will
-    // prevent unnecessarily setting the task's updated date)
-    if (source.index === destination.index) {
-      return
-    }
-    const copiedItems = columns[source.droppableId];
-    [removed] = copiedItems.splice(source.index, 1)
-    copiedItems.splice(destination.index, 0, removed)
-    setColumns({
-      ...columns,
-      [source.droppableId]: copiedItems
-    })
+  // The columns are shown sorted and filtered, so find the task by its ID rather than by its index
+  const sourceItems: KanbnTask[] = [...columns[source.droppableId]]
+  const removed = sourceItems.find(t => t.id === result.draggableId)
+  if (removed === undefined) {
+    return
   }
+  sourceItems.splice(sourceItems.indexOf(removed), 1)
+  const destItems: KanbnTask[] = source.droppableId === destination.droppableId ? sourceItems : [...columns[destination.droppableId]]
+
+  // Find the position in the destination column, relative to the other visible tasks
+  const visibleTasks = (getVisibleTasks(columns[destination.droppableId]) as KanbnTask[]).filter(t => t.id !== removed.id)
+  const position = getDropPosition(destItems, visibleTasks, destination.index)
+  destItems.splice(position, 0, removed)
+  setColumns({
+    ...columns,
+    [source.droppableId]: sourceItems,
+    [destination.droppableId]: destItems
+  })
 
   // Post a message back to the extension so we can move the task in the index
   vscode.postMessage({
     command: 'kanbn.move',
     task: removed.id,
     columnName: destination.droppableId,
-    position: destination.index
+    position
   })
 }
 
-// Check if a task's due date is in the past
-const checkOverdue = (task: KanbnTask): boolean => {
-  if (task.metadata.due !== undefined) {
-    return Date.parse(task.metadata.due) < (new Date()).getTime()
+// Called when a group of selected task items has finished being dragged
+const onMultiDragEnd = (result, columns, setColumns, getVisibleTasks, selectedTasks: string[]): void => {
+  // No destination means the items were dragged to an invalid location
+  if (result.destination === undefined || result.destination === null) {
+    return
   }
-  return false
+  const { destination } = result
+  const isSelected = (task: KanbnTask): boolean => selectedTasks.includes(task.id)
+
+  // The tasks that were moved, in the order they appear on the board
+  const movedTasks = (Object.values(columns).flat() as KanbnTask[]).filter(isSelected)
+
+  // Find the position in the destination column, ignoring any of the tasks that are being moved. The drop index
+  // counts the other selected tasks that are still shown in the column, but not the task being dragged.
+  const visibleTasks = (getVisibleTasks(columns[destination.droppableId]) as KanbnTask[])
+    .filter(task => task.id !== result.draggableId)
+  const index = visibleTasks.slice(0, destination.index).filter(task => !isSelected(task)).length
+  const newColumns = Object.fromEntries(
+    Object.entries(columns).map(([columnName, tasks]) => [columnName, (tasks as KanbnTask[]).filter(task => !isSelected(task))])
+  )
+  const position = getDropPosition(newColumns[destination.droppableId], visibleTasks.filter(task => !isSelected(task)), index)
+  newColumns[destination.droppableId].splice(position, 0, ...movedTasks)
+  setColumns(newColumns)
+
+  // Post a message back to the extension so we can move all of the tasks in the index
+  vscode.postMessage({
+    command: 'kanbn.batch',
+    action: 'move',
+    taskIds: movedTasks.map(task => task.id),
+    columnName: destination.droppableId,
+    position
+  })
 }
 
-// A list of property names that can be filtered
-const filterProperties = [
-  'description',
-  'assigned',
-  'tag',
-  'relation',
-  'subtask',
-  'comment'
-]
-
-// Filter tasks according to the filter string
-const filterTask = (
-  task: KanbnTask,
-  taskFilter: string,
-  customFields: Array<{ name: string, type: 'boolean' | 'date' | 'number' | 'string' }>
-): boolean => {
-  let result = true
-  const customFieldMap = Object.fromEntries(customFields.map(customField => [
-    customField.name.toLowerCase(),
-    customField
-  ]))
-  const customFieldNames = Object.keys(customFieldMap)
-  taskFilter.split(' ').forEach(f => {
-    const parts = f.split(':').map(p => p.toLowerCase())
-
-    // This filter section doesn't contain a property name
-    if (parts.length === 1) {
-      // Filter for overdue tasks
-      if (parts[0] === 'overdue') {
-        if (!checkOverdue(task)) {
-          result = false
-        }
-        return
-      }
+// Called when a task item has finished being dragged on a board that is split into swimlanes
+const onLaneDragEnd = (result, columns, setColumns, getLaneTasks, field, customFields): void => {
+  // No destination means the item was dragged to an invalid location
+  if (result.destination === undefined || result.destination === null) {
+    return
+  }
+  const { source, destination } = result
+  if (source.droppableId === destination.droppableId && source.index === destination.index) {
+    return
+  }
+  const [fromLane, fromColumn] = parseLaneDroppableId(source.droppableId)
+  const [toLane, toColumn] = parseLaneDroppableId(destination.droppableId)
 
-      // Filter boolean custom fields
-      if (customFieldNames.includes(parts[0]) && customFieldMap[parts[0]].type === 'boolean') {
-        if (
-          !(customFieldMap[parts[0]].name in task.metadata) ||
-          !(task.metadata[customFieldMap[parts[0]].name] === null || task.metadata[customFieldMap[parts[0]].name] === undefined)
-        ) {
-          result = false
-        }
-        return
-      }
+  // Remove the task from its column
+  const sourceItems: KanbnTask[] = [...columns[fromColumn]]
+  const task = getLaneTasks(fromLane, fromColumn)[source.index]
+  sourceItems.splice(sourceItems.findIndex(t => t.id === task.id), 1)
+  const destItems: KanbnTask[] = fromColumn === toColumn ? sourceItems : [...columns[toColumn]]
 
-      // Filter task id or name
-      if (
-        !task.id.toLowerCase().includes(parts[0]) &&
-        !task.name.toLowerCase().includes(parts[0])
-      ) {
-        result = false
-      }
-      return
-    }
+  // Find the position in the destination column, relative to the other tasks in the destination lane
+  const laneTasks = (getLaneTasks(toLane, toColumn) as KanbnTask[]).filter(t => t.id !== task.id)
+  const position = getDropPosition(destItems, laneTasks, destination.index)
+  destItems.splice(position, 0, fromLane !== toLane ? moveTaskToLane(task, field, fromLane, toLane, customFields) : task)
+  setColumns({
+    ...columns,
+    [fromColumn]: sourceItems,
+    [toColumn]: destItems
+  })
 
-    // If this filter section contains a property name and value, check the value against the property
-    if (
-      parts.length === 2 && (
-        filterProperties.includes(parts[0]) ||
-        customFieldNames.includes(parts[0])
-      )
-    ) {
-      // Fetch the value to filter by
-      let propertyValue = ''
-      switch (parts[0]) {
-        case 'description':
-          propertyValue = [
-            task.description,
-            ...task.subTasks.map(subTask => subTask.text)
-          ].join(' ')
-          break
-        case 'assigned':
-          propertyValue = task.metadata.assigned ?? ''
-          break
-        case 'tag':
-          propertyValue = (task.metadata.tags ?? []).join(' ')
-          break
-        case 'relation':
-          propertyValue = task.relations.map(relation => `${relation.type} ${relation.task}`).join(' ')
-          break
-        case 'subtask':
-          propertyValue = task.subTasks.map(subTask => `${subTask.text}`).join(' ')
-          break
-        case 'comment':
-          propertyValue = task.comments.map(comment => `${comment.author} ${comment.text}`).join(' ')
-          break
-        default:
-          if (
-            customFieldNames.includes(parts[0]) &&
-            customFieldMap[parts[0]].type !== 'boolean' &&
-            customFieldMap[parts[0]].name in task.metadata
-          ) {
-            propertyValue = `${task.metadata[customFieldMap[parts[0]].name]}`
-          }
-          break
-      }
+  // Post a message back to the extension so we can move the task in the index, and update the task's grouping
+  // field if it was moved to a different lane
+  if (fromLane !== toLane) {
+    vscode.postMessage({
+      command: 'kanbn.moveToLane',
+      task: task.id,
+      field,
+      fromLane,
+      toLane,
+      columnName: toColumn,
+      position
+    })
+  } else {
+    vscode.postMessage({
+      command: 'kanbn.move',
+      task: task.id,
+      columnName: toColumn,
+      position
+    })
+  }
+}
 
-      // Check the search term against the value
-      if (!propertyValue.toLowerCase().includes(parts[1])) {
-        result = false
+// Sort a column's tasks according to a saved view's sort setting
+const sortTasks = (tasks: KanbnTask[], sortBy: KanbnBoardView['sortBy']): KanbnTask[] => {
+  if (sortBy === undefined) {
+    return tasks
+  }
+  const sortValue = (task: KanbnTask): string | number => {
+    switch (sortBy.field) {
+      case 'name':
+        return task.name.toLowerCase()
+      case 'countSubTasks':
+        return task.subTasks.length
+      case 'countTags':
+        return (task.metadata.tags ?? []).length
+      case 'countRelations':
+        return task.relations.length
+      case 'countComments':
+        return task.comments.length
+      case 'workload':
+        return task.workload ?? 0
+      default: {
+        const value = task.metadata[sortBy.field]
+        if (value === undefined || value === null) {
+          return ''
+        }
+        return typeof value === 'number' ? value : `${value}`.toLowerCase()
       }
     }
+  }
+  return [...tasks].sort((a, b) => {
+    const [valueA, valueB] = [sortValue(a), sortValue(b)]
+    const result = valueA < valueB ? -1 : (valueA > valueB ? 1 : 0)
+    return sortBy.order === 'descending' ? -result : result
   })
-  return result
 }
 
 function Board (): JSX.Element {
@@ -182,11 +203,17 @@ function Board (): JSX.Element {
     startedColumns: [],
     completedColumns: [],
     columnSorting: {},
+    wipLimits: {},
     customFields: [],
     dateFormat: '',
+    timerTaskId: null,
     showBurndownButton: false,
     showSprintButton: false,
     currentSprint: null,
+    views: [],
+    currentView: null,
+    swimlanes: '',
+    collapsedLanes: [],
     taskFilter: ''
   })
 
@@ -207,6 +234,7 @@ function Board (): JSX.Element {
     newState.startedColumns = event.data.startedColumns
     newState.completedColumns = event.data.completedColumns
     newState.columnSorting = event.data.columnSorting
+    newState.wipLimits = event.data.wipLimits
     newState.customFields = event.data.customFields
     newState.showBurndownButton = event.data.showBurndownButton
     newState.showSprintButton = event.data.showSprintButton
@@ -218,11 +246,37 @@ function Board (): JSX.Element {
     }
     newState.currentSprint = sprint
     newState.dateFormat = event.data.dateFormat
-    newState.taskFilter = state.taskFilter
-    vscode.setState(newState)
-    setState(newState)
+    newState.timerTaskId = event.data.timerTaskId
+    newState.views = event.data.views
+
+    // The extension can ask for a saved view to be applied when the board is updated
+    const appliedView: KanbnBoardView | undefined = newState.views.find(view => view.name === event.data.view)
+    if (appliedView !== undefined) {
+      (document.querySelector('.kanbn-filter-input') as HTMLInputElement).value = appliedView.filter ?? ''
+    }
+    setState(previousState => ({
+      ...newState,
+      currentView: appliedView !== undefined ? appliedView.name : previousState.currentView,
+      taskFilter: appliedView !== undefined ? appliedView.filter ?? '' : previousState.taskFilter,
+      swimlanes: appliedView?.swimlanes ?? previousState.swimlanes ?? '',
+      collapsedLanes: previousState.collapsedLanes ?? []
+    }))
   }, [])
 
+  // Store the board state so it can be restored when the panel is shown again
+  useEffect(() => {
+    vscode.setState(state)
+  }, [state])
+
+  // Tell the extension which filter and view are applied, so that the timeline can show the same tasks
+  useEffect(() => {
+    vscode.postMessage({
+      command: 'kanbn.filter',
+      filter: state.taskFilter ?? '',
+      view: state.currentView ?? null
+    })
+  }, [state.taskFilter, state.currentView])
+
   useEffect(() => {
     window.addEventListener('message', processMessage)
     return () => {
@@ -230,6 +284,10 @@ function Board (): JSX.Element {
     }
   }, [])
 
+  // IDs of the tasks that have been selected using ctrl/shift-click, and the task that was selected last
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
+  const selectionAnchor = useRef<string | null>(null)
+
   const setColumns = (columns): void => {
     const newState = { ...state }
     newState.columns = columns
@@ -241,6 +299,19 @@ function Board (): JSX.Element {
     setState(newState)
   }
 
+  const views: KanbnBoardView[] = state.views ?? []
+  const currentView: KanbnBoardView | undefined = views.find(view => view.name === state.currentView)
+  const hiddenColumns: string[] = [...state.hiddenColumns, ...(currentView?.hiddenColumns ?? [])]
+
+  // Called when a saved view is picked from the views dropdown
+  const selectView = (viewName: string): void => {
+    const view: KanbnBoardView | undefined = views.find(view => view.name === viewName)
+    const taskFilter = view?.filter ?? ''
+    const filterInput = document.querySelector('.kanbn-filter-input') as HTMLInputElement
+    filterInput.value = taskFilter
+    setState({ ...state, currentView: view?.name ?? null, taskFilter, swimlanes: view?.swimlanes ?? state.swimlanes })
+  }
+
   // Called when the clear filter button is clicked
   const clearFilters = (e: React.UIEvent<HTMLElement>): void => {
     (document.querySelector('.kanbn-filter-input') as HTMLInputElement).value = ''
@@ -255,6 +326,211 @@ function Board (): JSX.Element {
 
   const taskFilter = state.taskFilter
 
+  // Parse the filter string, showing any syntax errors instead of hiding every task
+  const [filterTask, filterError] = useMemo((): [(task: KanbnTask) => boolean, FilterSyntaxError | null] => {
+    try {
+      return [compileFilter(taskFilter, state.customFields), null]
+    } catch (error) {
+      if (error instanceof FilterSyntaxError) {
+        return [() => true, error]
+      }
+      throw error
+    }
+  }, [taskFilter, state.customFields])
+
+  const swimlanes: string = state.swimlanes ?? ''
+  const collapsedLanes: string[] = state.collapsedLanes ?? []
+  const visibleColumns = Object.entries(state.columns as Record<string, KanbnTask[]>)
+    .filter(([columnName]) => !hiddenColumns.includes(columnName))
+
+  // Get the tasks in a column that match the current filter, in the order they should be displayed
+  const getVisibleTasks = (column: KanbnTask[]): KanbnTask[] => sortTasks(column, currentView?.sortBy).filter(filterTask)
+
+  // Get the visible tasks in a column that belong to a swimlane
+  const getLaneTasks = (lane: string, columnName: string): KanbnTask[] => getVisibleTasks(state.columns[columnName])
+    .filter(task => getTaskLanes(task, swimlanes, state.customFields).includes(lane))
+
+  const setSwimlanes = (swimlanes: string): void => {
+    setState({ ...state, swimlanes })
+  }
+
+  const toggleLane = (lane: string): void => {
+    setState({
+      ...state,
+      collapsedLanes: collapsedLanes.includes(lane)
+        ? collapsedLanes.filter(collapsedLane => collapsedLane !== lane)
+        : [...collapsedLanes, lane]
+    })
+  }
+
+  // Get the CSS class names for a column, including whether the column is over its WIP limit
+  const getColumnClassNames = (columnName: string, column: KanbnTask[]): string => {
+    const wipLimit: { limit: number, hard?: boolean } | undefined = state.wipLimits?.[columnName]
+    return [
+      'kanbn-column',
+      `kanbn-column-${paramCase(columnName)}`,
+      wipLimit !== undefined && column.length > wipLimit.limit ? 'kanbn-column-over-limit' : null
+    ].filter(i => i).join(' ')
+  }
+
+  // Only keep selected tasks that are still on the board
+  const allTasks = Object.values(state.columns as Record<string, KanbnTask[]>).flat()
+  const selectedTasks = selectedTaskIds.filter(taskId => allTasks.some(task => task.id === taskId))
+
+  // Find tasks that depend on incomplete tasks
+  const blockedTasks = getBlockedTasks(allTasks, state.completedColumns)
+
+  // Called when a task is ctrl-clicked (toggle selection) or shift-clicked (select a range within a column)
+  const selectTask = (task: KanbnTask, columnTasks: KanbnTask[], e: React.MouseEvent): void => {
+    const selected = new Set(selectedTasks)
+    const anchorIndex = columnTasks.findIndex(t => t.id === selectionAnchor.current)
+    if (e.shiftKey && anchorIndex !== -1) {
+      const taskIndex = columnTasks.findIndex(t => t.id === task.id)
+      columnTasks
+        .slice(Math.min(anchorIndex, taskIndex), Math.max(anchorIndex, taskIndex) + 1)
+        .forEach(t => selected.add(t.id))
+    } else if (selected.has(task.id)) {
+      selected.delete(task.id)
+    } else {
+      selected.add(task.id)
+    }
+    selectionAnchor.current = task.id
+    setSelectedTaskIds([...selected])
+  }
+
+  // Apply an action to all selected tasks. The extension will prompt for any values that the action needs.
+  const bulkAction = (action: string, options: Record<string, any> = {}): void => {
+    vscode.postMessage({
+      command: 'kanbn.batch',
+      action,
+      taskIds: selectedTasks,
+      ...options
+    })
+    if (['move', 'archive'].includes(action)) {
+      setSelectedTaskIds([])
+    }
+  }
+
+  // Clear the selection when escape is pressed
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        setSelectedTaskIds([])
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [])
+
+  const renderColumnName = (columnName: string, column: KanbnTask[]): JSX.Element => (
+    <h2 className="kanbn-column-name">
+      {
+        state.startedColumns.includes(columnName) as boolean &&
+        <i className="codicon codicon-play"></i>
+      }
+      {
+        state.completedColumns.includes(columnName) as boolean &&
+        <i className="codicon codicon-check"></i>
+      }
+      {columnName}
+      {((wipLimit: { limit: number, hard?: boolean } | undefined) => (
+        <span
+          className="kanbn-column-count"
+          title={wipLimit !== undefined ? `WIP limit: ${wipLimit.limit}${wipLimit.hard === true ? ' (hard)' : ''}` : undefined}
+        >
+          {wipLimit !== undefined ? `${column.length} / ${wipLimit.limit}` : column.length}
+        </span>
+      ))(state.wipLimits?.[columnName])}
+      <button
+        type="button"
+        className="kanbn-column-button kanbn-create-task-button"
+        title={`Create task in ${columnName}`}
+        onClick={() => {
+          vscode.postMessage({
+            command: 'kanbn.addTask',
+            columnName
+          })
+        }}
+      >
+        <i className="codicon codicon-add"></i>
+      </button>
+      {((columnIsSorted, columnSortSettings) => (
+        <button
+          type="button"
+          className={[
+            'kanbn-column-button',
+            'kanbn-sort-column-button',
+            columnIsSorted ? 'kanbn-column-sorted' : null
+          ].filter(i => i).join(' ')}
+          title={`Sort ${columnName}${columnIsSorted
+            ? `\nCurrently sorted by:\n${columnSortSettings.map(
+              sorter => `${sorter.field} (${sorter.order})`
+            ).join('\n')}`
+            : ''
+          }`}
+          onClick={() => {
+            vscode.postMessage({
+              command: 'kanbn.sortColumn',
+              columnName
+            })
+          }}
+        >
+          <i className="codicon codicon-list-filter"></i>
+        </button>
+      ))(columnName in state.columnSorting, state.columnSorting[columnName] ?? [])}
+      <button
+        type="button"
+        className="kanbn-column-button kanbn-wip-limit-button"
+        title={`Set WIP limit for ${columnName}`}
+        onClick={() => {
+          vscode.postMessage({
+            command: 'kanbn.setWipLimit',
+            columnName
+          })
+        }}
+      >
+        <i className="codicon codicon-dashboard"></i>
+      </button>
+    </h2>
+  )
+
+  const renderTaskList = (droppableId: string, columnName: string, tasks: KanbnTask[]): JSX.Element => (
+    <div className="kanbn-column-task-list-container">
+      <Droppable droppableId={droppableId} key={droppableId}>
+        {(provided, snapshot) => {
+          const isDraggingOver: boolean = snapshot.isDraggingOver
+          return (
+            <div
+              {...provided.droppableProps}
+              ref={provided.innerRef}
+              className={[
+                'kanbn-column-task-list',
+                isDraggingOver ? 'drag-over' : null
+              ].filter(i => i).join(' ')}
+            >
+              {tasks.map((task, position) => <TaskItem
+                key={task.id}
+                task={task}
+                draggableId={droppableId === columnName ? task.id : `${droppableId}${task.id}`}
+                selected={selectedTasks.includes(task.id)}
+                blockedBy={blockedTasks[task.id]?.map(taskId => allTasks.find(task => task.id === taskId)?.name ?? taskId)}
+                timerRunning={state.timerTaskId === task.id}
+                onSelect={e => selectTask(task, tasks, e)}
+                columnName={columnName}
+                customFields={state.customFields}
+                position={position}
+                dateFormat={state.dateFormat}
+              />)}
+              {provided.placeholder}
+            </div>
+          )
+        }}
+      </Droppable>
+    </div>
+  )
+
   // Indicate that the board is ready to receive messages and should be updated
   useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
   return (
@@ -264,9 +540,35 @@ function Board (): JSX.Element {
           <p>{state.name}</p>
           <div className="kanbn-filter">
             <form>
+              <select
+                className="kanbn-view-select"
+                value={currentView?.name ?? ''}
+                onChange={e => selectView(e.target.value)}
+                title="Saved views"
+              >
+                <option value="">All tasks</option>
+                {views.map(view => <option key={view.name} value={view.name}>{view.name}</option>)}
+              </select>
+              <select
+                className="kanbn-swimlane-select"
+                value={swimlanes}
+                onChange={e => setSwimlanes(e.target.value)}
+                title="Split columns into swimlanes"
+              >
+                <option value="">No swimlanes</option>
+                <option value="assigned">Swimlanes by assignee</option>
+                <option value="tag">Swimlanes by tag</option>
+                {state.customFields.map(customField => (
+                  <option key={customField.name} value={customField.name}>Swimlanes by {customField.name}</option>
+                ))}
+              </select>
               <input
-                className="kanbn-filter-input"
+                className={[
+                  'kanbn-filter-input',
+                  filterError !== null ? 'kanbn-filter-input-error' : null
+                ].filter(i => i).join(' ')}
                 placeholder="Filter tasks"
+                defaultValue={taskFilter}
               />
               <button
                 type="submit"
@@ -287,6 +589,39 @@ function Board (): JSX.Element {
                   <i className="codicon codicon-clear-all"></i>
                 </button>
               }
+              <button
+                type="button"
+                className="kanbn-header-button kanbn-header-button-save-view"
+                onClick={() => {
+                  vscode.postMessage({
+                    command: 'kanbn.saveView',
+                    view: {
+                      ...currentView,
+                      filter: (document.querySelector('.kanbn-filter-input') as HTMLInputElement).value,
+                      swimlanes
+                    }
+                  })
+                }}
+                title="Save the current filter as a view"
+              >
+                <i className="codicon codicon-save"></i>
+              </button>
+              {
+                currentView !== undefined &&
+                <button
+                  type="button"
+                  className="kanbn-header-button kanbn-header-button-delete-view"
+                  onClick={() => {
+                    vscode.postMessage({
+                      command: 'kanbn.deleteView',
+                      viewName: currentView.name
+                    })
+                  }}
+                  title={`Delete view '${currentView.name}'`}
+                >
+                  <i className="codicon codicon-trash"></i>
+                </button>
+              }
               {
                 state.showSprintButton as boolean &&
                 <button
@@ -298,9 +633,19 @@ function Board (): JSX.Element {
                     })
                   }}
                   title={[
-                    'Start a new sprint',
+                    (state.currentSprint != null && state.currentSprint.closed === undefined)
+                      ? 'Plan, close or start a sprint'
+                      : 'Start a new sprint',
                     (state.currentSprint != null)
-                      ? `Current sprint:\n  ${state.currentSprint.name}\n  Started ${formatDate(state.currentSprint.start, state.dateFormat)}`
+                      ? [
+                          `${state.currentSprint.closed === undefined ? 'Current' : 'Last'} sprint:`,
+                          `  ${state.currentSprint.name as string}`,
+                          ...state.currentSprint.goal !== undefined ? [`  Goal: ${state.currentSprint.goal as string}`] : [],
+                          `  Started ${formatDate(state.currentSprint.start, state.dateFormat)}`,
+                          ...state.currentSprint.end !== undefined ? [`  Ends ${formatDate(state.currentSprint.end, state.dateFormat)}`] : [],
+                          ...state.currentSprint.closed !== undefined ? [`  Closed ${formatDate(state.currentSprint.closed, state.dateFormat)}`] : [],
+                          ...state.currentSprint.tasks !== undefined ? [`  ${state.currentSprint.tasks.length as number} planned tasks`] : []
+                        ].join('\n')
                       : ''
                   ].join('\n')}
                 >
@@ -324,111 +669,176 @@ function Board (): JSX.Element {
                 </button>
               }
             </form>
+            {
+              filterError !== null &&
+              <p className="kanbn-filter-error" title={`Error at position ${filterError.position + 1}`}>
+                {filterError.message}
+              </p>
+            }
           </div>
         </h1>
         <p className="kanbn-header-description">
           {state.description}
         </p>
       </div>
-      <div className="kanbn-board">
-        <DragDropContext
-          onDragEnd={result => onDragEnd(result, state.columns, setColumns)}
-        >
-          {Object.entries(state.columns).map(([columnName, column]) => {
-            if (state.hiddenColumns.includes(columnName) as boolean) {
-              return false
-            }
-            return (
-              <div
-                className={[
-                  'kanbn-column',
-                  `kanbn-column-${paramCase(columnName)}`
-                ].join(' ')}
-                key={columnName}
-              >
-                <h2 className="kanbn-column-name">
-                  {
-                    state.startedColumns.includes(columnName) as boolean &&
-                    <i className="codicon codicon-play"></i>
-                  }
-                  {
-                    state.completedColumns.includes(columnName) as boolean &&
-                    <i className="codicon codicon-check"></i>
+      {
+        selectedTasks.length > 0 &&
+        <div className="kanbn-bulk-actions">
+          <span className="kanbn-bulk-actions-count">
+            {selectedTasks.length} task{selectedTasks.length === 1 ? '' : 's'} selected
+          </span>
+          <select
+            className="kanbn-bulk-actions-move"
+            value=""
+            onChange={e => bulkAction('move', { columnName: e.target.value })}
+            title="Move selected tasks to a column"
+          >
+            <option value="" disabled>Move to column...</option>
+            {Object.keys(state.columns).map(columnName => <option key={columnName} value={columnName}>{columnName}</option>)}
+          </select>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-add-tag"
+            onClick={() => bulkAction('addTag')}
+            title="Add a tag to the selected tasks"
+          >
+            <i className="codicon codicon-tag"></i>Add tag
+          </button>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-remove-tag"
+            onClick={() => bulkAction('removeTag')}
+            title="Remove a tag from the selected tasks"
+          >
+            <i className="codicon codicon-close"></i>Remove tag
+          </button>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-assign"
+            onClick={() => bulkAction('assign')}
+            title="Assign the selected tasks"
+          >
+            <i className="codicon codicon-account"></i>Assign
+          </button>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-due"
+            onClick={() => bulkAction('setDue')}
+            title="Set the due date of the selected tasks"
+          >
+            <i className="codicon codicon-watch"></i>Set due date
+          </button>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-archive"
+            onClick={() => bulkAction('archive')}
+            title="Archive the selected tasks"
+          >
+            <i className="codicon codicon-archive"></i>Archive
+          </button>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-delete"
+            onClick={() => bulkAction('delete')}
+            title="Delete the selected tasks"
+          >
+            <i className="codicon codicon-trash"></i>Delete
+          </button>
+          <button
+            type="button"
+            className="kanbn-header-button kanbn-bulk-actions-button kanbn-bulk-actions-clear"
+            onClick={() => setSelectedTaskIds([])}
+            title="Clear the selection"
+          >
+            <i className="codicon codicon-clear-all"></i>
+          </button>
+        </div>
+      }
+      {
+        swimlanes === ''
+          ? (
+            <div className="kanbn-board">
+              <DragDropContext
+                onDragEnd={result => {
+                  if (selectedTasks.length > 1 && selectedTasks.includes(result.draggableId)) {
+                    onMultiDragEnd(result, state.columns, setColumns, getVisibleTasks, selectedTasks)
+                  } else {
+                    onDragEnd(result, state.columns, setColumns, getVisibleTasks)
                   }
-                  {columnName}
-                  <span className="kanbn-column-count">{(column as any).length}</span>
-                  <button
-                    type="button"
-                    className="kanbn-column-button kanbn-create-task-button"
-                    title={`Create task in ${columnName}`}
-                    onClick={() => {
-                      vscode.postMessage({
-                        command: 'kanbn.addTask',
-                        columnName
-                      })
-                    }}
+                }}
+              >
+                {visibleColumns.map(([columnName, column]) => (
+                  <div
+                    className={getColumnClassNames(columnName, column)}
+                    key={columnName}
                   >
-                    <i className="codicon codicon-add"></i>
-                  </button>
-                  {((columnIsSorted, columnSortSettings) => (
-                    <button
-                      type="button"
+                    {renderColumnName(columnName, column)}
+                    {renderTaskList(columnName, columnName, getVisibleTasks(column))}
+                  </div>
+                ))}
+              </DragDropContext>
+            </div>
+            )
+          : (
+            <div className="kanbn-board kanbn-board-swimlanes">
+              <div className="kanbn-swimlane-columns">
+                {visibleColumns.map(([columnName, column]) => (
+                  <div
+                    className={getColumnClassNames(columnName, column)}
+                    key={columnName}
+                  >
+                    {renderColumnName(columnName, column)}
+                  </div>
+                ))}
+              </div>
+              <DragDropContext
+                onDragEnd={result => onLaneDragEnd(result, state.columns, setColumns, getLaneTasks, swimlanes, state.customFields)}
+              >
+                {getLanes(Object.values(state.columns).flat() as KanbnTask[], swimlanes, state.customFields).map(lane => {
+                  const collapsed: boolean = collapsedLanes.includes(lane)
+                  const laneTaskCount = visibleColumns.reduce(
+                    (count, [columnName]) => count + getLaneTasks(lane, columnName).length,
+                    0
+                  )
+                  return (
+                    <div
                       className={[
-                        'kanbn-column-button',
-                        'kanbn-sort-column-button',
-                        columnIsSorted ? 'kanbn-column-sorted' : null
+                        'kanbn-swimlane',
+                        collapsed ? 'kanbn-swimlane-collapsed' : null
                       ].filter(i => i).join(' ')}
-                      title={`Sort ${columnName}${columnIsSorted
-                        ? `\nCurrently sorted by:\n${columnSortSettings.map(
-                          sorter => `${sorter.field} (${sorter.order})`
-                        ).join('\n')}`
-                        : ''
-                      }`}
-                      onClick={() => {
-                        vscode.postMessage({
-                          command: 'kanbn.sortColumn',
-                          columnName
-                        })
-                      }}
+                      key={lane}
                     >
-                      <i className="codicon codicon-list-filter"></i>
-                    </button>
-                  ))(columnName in state.columnSorting, state.columnSorting[columnName] ?? [])}
-                </h2>
-                <div className="kanbn-column-task-list-container">
-                  <Droppable droppableId={columnName} key={columnName}>
-                    {(provided, snapshot) => {
-                      const isDraggingOver: boolean = snapshot.isDraggingOver
-                      return (
-                        <div
-                          {...provided.droppableProps}
-                          ref={provided.innerRef}
-                          className={[
-                            'kanbn-column-task-list',
-                            isDraggingOver ? 'drag-over' : null
-                          ].filter(i => i).join(' ')}
+                      <h3 className="kanbn-swimlane-name">
+                        <button
+                          type="button"
+                          onClick={() => toggleLane(lane)}
+                          title={collapsed ? 'Expand swimlane' : 'Collapse swimlane'}
                         >
-                          {(column as any)
-                            .filter(task => filterTask(task, taskFilter, state.customFields))
-                            .map((task, position) => <TaskItem
-                              key={task.id}
-                              task={task}
-                              columnName={columnName}
-                              customFields={state.customFields}
-                              position={position}
-                              dateFormat={state.dateFormat}
-                            />)}
-                          {provided.placeholder}
+                          <i className={`codicon codicon-chevron-${collapsed ? 'right' : 'down'}`}></i>
+                          {getLaneLabel(lane, swimlanes, state.customFields, state.dateFormat)}
+                        </button>
+                        <span className="kanbn-swimlane-count">{laneTaskCount}</span>
+                      </h3>
+                      {
+                        !collapsed &&
+                        <div className="kanbn-swimlane-columns">
+                          {visibleColumns.map(([columnName, column]) => (
+                            <div
+                              className={getColumnClassNames(columnName, column)}
+                              key={columnName}
+                            >
+                              {renderTaskList(getLaneDroppableId(lane, columnName), columnName, getLaneTasks(lane, columnName))}
+                            </div>
+                          ))}
                         </div>
-                      )
-                    }}
-                  </Droppable>
-                </div>
-              </div>
+                      }
+                    </div>
+                  )
+                })}
+              </DragDropContext>
+            </div>
             )
-          })}
-        </DragDropContext>
-      </div>
+      }
     </>
   )
 }
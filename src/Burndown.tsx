@@ -1,8 +1,25 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react'
-import { ResponsiveContainer, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip } from 'recharts'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
+  ComposedChart,
+  Bar,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend
+} from 'recharts'
 import vscode from './vscode'
 import formatDate from 'dateformat'
 import { debounce } from 'throttle-debounce'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+// Colours for each column's area in the cumulative flow diagram
+const cumulativeFlowColours = ['#3c7', '#39f', '#f90', '#c6f', '#f55', '#3cc', '#fc3', '#999']
 
 const Burndown = (): JSX.Element => {
   const [state, setState] = useState(vscode.getState() ?? {
@@ -10,31 +27,39 @@ const Burndown = (): JSX.Element => {
     dateFormat: 'yyyy-mm-dd',
     sprints: [],
     burndownData: { series: [] },
+    cumulativeFlowData: { columns: [], dataPoints: [] },
+    velocityData: [],
+    chartType: 'burndown',
     sprintMode: false,
     sprint: '',
     startDate: '',
     endDate: ''
   })
   const processMessage = useCallback(event => {
-    const newState: any = {}
-    newState.name = event.data.index.name
-    newState.sprints = 'sprints' in event.data.index.options
-      ? event.data.index.options.sprints
-      : []
-    newState.burndownData = event.data.burndownData
-    newState.dateFormat = event.data.dateFormat
-    newState.sprintMode = state.sprintMode
-    newState.sprint = state.sprint
-    newState.startDate = state.startDate
-    if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.startDate === '') {
-      newState.startDate = formatDate(newState.burndownData.series[0].from, state.dateFormat)
-    }
-    newState.endDate = state.endDate
-    if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.endDate === '') {
-      newState.endDate = formatDate(newState.burndownData.series[0].to, state.dateFormat)
-    }
-    vscode.setState(newState)
-    setState(newState)
+    setState(state => {
+      const newState: any = {}
+      newState.name = event.data.index.name
+      newState.sprints = 'sprints' in event.data.index.options
+        ? event.data.index.options.sprints
+        : []
+      newState.burndownData = event.data.burndownData
+      newState.cumulativeFlowData = event.data.cumulativeFlowData
+      newState.velocityData = event.data.velocityData
+      newState.dateFormat = event.data.dateFormat
+      newState.chartType = state.chartType ?? 'burndown'
+      newState.sprintMode = state.sprintMode
+      newState.sprint = state.sprint
+      newState.startDate = state.startDate
+      if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.startDate === '') {
+        newState.startDate = formatDate(newState.burndownData.series[0].from, state.dateFormat)
+      }
+      newState.endDate = state.endDate
+      if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.endDate === '') {
+        newState.endDate = formatDate(newState.burndownData.series[0].to, state.dateFormat)
+      }
+      vscode.setState(newState)
+      return newState
+    })
   }, [])
 
   useEffect(() => {
@@ -59,6 +84,11 @@ const Burndown = (): JSX.Element => {
     setState(newState)
     vscode.setState(newState)
   }
+  const setChartType = (chartType): void => {
+    const newState = { ...state, chartType }
+    setState(newState)
+    vscode.setState(newState)
+  }
   const setEndDate = (endDate): void => {
     const newState = { ...state, endDate }
     setState(newState)
@@ -147,6 +177,16 @@ const Burndown = (): JSX.Element => {
     }))
     : []
 
+  const cumulativeFlowColumns: string[] = state.cumulativeFlowData?.columns ?? []
+  const cumulativeFlowChartData = (state.cumulativeFlowData?.dataPoints ?? []).map(dataPoint => ({
+    x: Date.parse(dataPoint.x),
+    counts: dataPoint.counts
+  }))
+
+  const velocityData: any[] = state.velocityData ?? []
+  const currentSprint = velocityData.find(sprint => sprint.current === true)
+  const formatNumber = (value: number): string => `${Math.round(value * 10) / 10}`
+
   const formatXAxis = (date): string => {
     return formatDate(date, state.dateFormat)
   }
@@ -169,6 +209,91 @@ const Burndown = (): JSX.Element => {
     return null
   }
 
+  const renderCumulativeFlowTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const data = e.payload[0].payload
+      return (
+        <div className="kanbn-burndown-tooltip">
+          <p className="kanbn-burndown-tooltip-date">{formatDate(data.x, state.dateFormat)}</p>
+          {cumulativeFlowColumns.map(column => (
+            <p className="kanbn-burndown-tooltip-column" key={column}>{column}: {data.counts[column]}</p>
+          ))}
+        </div>
+      )
+    }
+    return null
+  }
+
+  const renderVelocityTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const data = e.payload[0].payload
+      return (
+        <div className="kanbn-burndown-tooltip">
+          <p className="kanbn-burndown-tooltip-date">{data.name}{data.current === true && ' (in progress)'}</p>
+          <p className="kanbn-burndown-tooltip-workload">Committed workload: {data.committedWorkload} ({data.committedTasks} tasks)</p>
+          <p className="kanbn-burndown-tooltip-workload">Completed workload: {data.completedWorkload} ({data.completedTasks} tasks)</p>
+          <p className="kanbn-burndown-tooltip-count">Rolling average: {formatNumber(data.averageWorkload)}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  const renderVelocity = (): JSX.Element => (
+    <div className="kanbn-velocity">
+      <ResponsiveContainer width="100%" height="60%" className="kanbn-burndown-chart kanbn-velocity-chart">
+        <ComposedChart data={velocityData}>
+          <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+          <XAxis dataKey="name" />
+          <YAxis allowDecimals={false} />
+          <Tooltip content={renderVelocityTooltip} />
+          <Legend />
+          <Bar className="kanbn-velocity-committed" dataKey="committedWorkload" name="Committed" fill="#39f" isAnimationActive={false} />
+          <Bar className="kanbn-velocity-completed" dataKey="completedWorkload" name="Completed" fill="#3c7" isAnimationActive={false} />
+          <Line
+            className="kanbn-velocity-average"
+            type="monotone"
+            dataKey="averageWorkload"
+            name="Rolling average"
+            stroke="#f90"
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+      {currentSprint !== undefined && currentSprint.averageWorkload > 0 && <p className="kanbn-velocity-forecast">
+        Based on recent sprints, the team completes about {formatNumber(currentSprint.averageWorkload)} workload
+        ({formatNumber(currentSprint.averageTasks)} tasks) per sprint.
+      </p>}
+      <table className="kanbn-velocity-table">
+        <thead>
+          <tr>
+            <th>Sprint</th>
+            <th>Start</th>
+            <th>Committed workload</th>
+            <th>Completed workload</th>
+            <th>Committed tasks</th>
+            <th>Completed tasks</th>
+            <th>Rolling average</th>
+          </tr>
+        </thead>
+        <tbody>
+          {velocityData.map(sprint => (
+            <tr key={sprint.name} className={sprint.current === true ? 'kanbn-velocity-current' : undefined}>
+              <td>{sprint.name}</td>
+              <td>{formatDate(sprint.start, state.dateFormat)}</td>
+              <td>{sprint.committedWorkload}</td>
+              <td>{sprint.completedWorkload}</td>
+              <td>{sprint.committedTasks}</td>
+              <td>{sprint.completedTasks}</td>
+              <td>{formatNumber(sprint.averageWorkload)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
   useEffect(() => {
     vscode.postMessage({ command: 'kanbn.updateMe' })
   }, [])
@@ -180,6 +305,7 @@ const Burndown = (): JSX.Element => {
           <p>{state.name}</p>
           <div className="kanbn-burndown-settings">
             <form>
+              {state.chartType !== 'velocity' && <>
               {
                 state.sprintMode as boolean
                   ? <select
@@ -236,33 +362,110 @@ const Burndown = (): JSX.Element => {
               >
                 <i className="codicon codicon-clock"></i>
               </button>
+              </>}
+              <button
+                type="button"
+                className={[
+                  'kanbn-header-button',
+                  'kanbn-burndown-settings-burndown-chart',
+                  state.chartType === 'burndown' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+                ].join(' ')}
+                onClick={() => setChartType('burndown')}
+                title="View burndown chart"
+              >
+                <i className="codicon codicon-graph-line"></i>
+              </button>
+              <button
+                type="button"
+                className={[
+                  'kanbn-header-button',
+                  'kanbn-burndown-settings-cfd-chart',
+                  state.chartType === 'cfd' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+                ].join(' ')}
+                onClick={() => setChartType('cfd')}
+                title="View cumulative flow diagram"
+              >
+                <i className="codicon codicon-layers"></i>
+              </button>
+              {hasSprints && <button
+                type="button"
+                className={[
+                  'kanbn-header-button',
+                  'kanbn-burndown-settings-velocity-chart',
+                  state.chartType === 'velocity' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+                ].join(' ')}
+                onClick={() => setChartType('velocity')}
+                title="View sprint velocity"
+              >
+                <i className="codicon codicon-dashboard"></i>
+              </button>}
             </form>
           </div>
         </h1>
       </div>
       <div className="kanbn-burndown">
-        <ResponsiveContainer width="100%" height="100%" className="kanbn-burndown-chart">
-          <LineChart data={chartData}>
-            <Line
-              className="kanbn-burndown-line"
-              type="stepAfter"
-              dataKey="y"
-              strokeWidth={2}
-              dot={{ className: 'kanbn-burndown-point' }}
-              isAnimationActive={false}
-            />
-            <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
-            {chartData.length > 0 && <XAxis
-              dataKey="x"
-              type="number"
-              domain={['dataMin', 'dataMax']}
-              tickFormatter={formatXAxis}
-              tickCount={6}
-            />}
-            <YAxis />
-            <Tooltip content={renderTooltip} />
-          </LineChart>
-        </ResponsiveContainer>
+        {
+          state.chartType === 'velocity'
+            ? renderVelocity()
+            : state.chartType === 'cfd'
+              ? <ResponsiveContainer width="100%" height="100%" className="kanbn-burndown-chart kanbn-cfd-chart">
+                  <AreaChart data={cumulativeFlowChartData}>
+                    {
+                      // Stack the areas with the last column at the bottom
+                      [...cumulativeFlowColumns].reverse().map(column => {
+                        const colour = cumulativeFlowColours[cumulativeFlowColumns.indexOf(column) % cumulativeFlowColours.length]
+                        return (
+                          <Area
+                            key={column}
+                            className={`kanbn-cfd-area kanbn-cfd-area-${paramCase(column) as string}`}
+                            type="stepAfter"
+                            dataKey={dataPoint => dataPoint.counts[column]}
+                            name={column}
+                            stackId="columns"
+                            stroke={colour}
+                            fill={colour}
+                            fillOpacity={0.6}
+                            isAnimationActive={false}
+                          />
+                        )
+                      })
+                    }
+                    <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+                    {cumulativeFlowChartData.length > 0 && <XAxis
+                      dataKey="x"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatXAxis}
+                      tickCount={6}
+                    />}
+                    <YAxis allowDecimals={false} />
+                    <Tooltip content={renderCumulativeFlowTooltip} />
+                    <Legend />
+                  </AreaChart>
+                </ResponsiveContainer>
+              : <ResponsiveContainer width="100%" height="100%" className="kanbn-burndown-chart">
+                  <LineChart data={chartData}>
+                    <Line
+                      className="kanbn-burndown-line"
+                      type="stepAfter"
+                      dataKey="y"
+                      strokeWidth={2}
+                      dot={{ className: 'kanbn-burndown-point' }}
+                      isAnimationActive={false}
+                    />
+                    <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+                    {chartData.length > 0 && <XAxis
+                      dataKey="x"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatXAxis}
+                      tickCount={6}
+                    />}
+                    <YAxis />
+                    <Tooltip content={renderTooltip} />
+                  </LineChart>
+                </ResponsiveContainer>
+        }
       </div>
     </>
   )
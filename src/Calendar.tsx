@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd'
+import formatDate from 'dateformat'
+import vscode from './vscode'
+
+type CalendarMode = 'month' | 'week'
+type CalendarEventType = 'due' | 'started' | 'completed'
+
+interface CalendarEvent {
+  task: KanbnTask
+  type: CalendarEventType
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+const weekDays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+// Get a key for the local calendar day of a date, in the same format as a date input's value
+const getDayKey = (date: Date): string => [
+  date.getFullYear(),
+  `${date.getMonth() + 1}`.padStart(2, '0'),
+  `${date.getDate()}`.padStart(2, '0')
+].join('-')
+
+const parseDayKey = (dayKey: string): Date => new Date(`${dayKey}T00:00:00`)
+
+// Get the days shown in the calendar. Weeks start on a Monday, and the month view is padded to whole weeks.
+const getDays = (mode: CalendarMode, date: Date): Date[] => {
+  let start: Date
+  let end: Date
+  if (mode === 'month') {
+    start = new Date(date.getFullYear(), date.getMonth(), 1)
+    end = new Date(date.getFullYear(), date.getMonth() + 1, 0)
+  } else {
+    start = new Date(date)
+    end = new Date(date)
+  }
+  start.setDate(start.getDate() - (start.getDay() + 6) % 7)
+  end.setDate(end.getDate() + (7 - end.getDay()) % 7)
+  const dayCount = Math.round((end.getTime() - start.getTime()) / DAY) + 1
+  return Array.from({ length: dayCount }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i))
+}
+
+// Group task dates by day
+const getEvents = (tasks: KanbnTask[], showStarted: boolean, showCompleted: boolean): Record<string, CalendarEvent[]> => {
+  const events: Record<string, CalendarEvent[]> = {}
+  const addEvent = (task: KanbnTask, type: CalendarEventType, date: string | undefined): void => {
+    if (date === undefined || isNaN(Date.parse(date))) {
+      return
+    }
+    const dayKey = getDayKey(new Date(date))
+    events[dayKey] = [...(events[dayKey] ?? []), { task, type }]
+  }
+  for (const task of tasks) {
+    addEvent(task, 'due', task.metadata.due)
+    if (showStarted) {
+      addEvent(task, 'started', task.metadata.started)
+    }
+    if (showCompleted) {
+      addEvent(task, 'completed', task.metadata.completed)
+    }
+  }
+  return events
+}
+
+const Calendar = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    tasks: [],
+    completedColumns: [],
+    dateFormat: 'yyyy-mm-dd',
+    mode: 'month',
+    date: getDayKey(new Date()),
+    showStarted: false,
+    showCompleted: false
+  })
+
+  const processMessage = useCallback(event => {
+    setState(state => ({
+      ...state,
+      name: event.data.index.name,
+      tasks: event.data.tasks,
+      completedColumns: event.data.completedColumns,
+      dateFormat: event.data.dateFormat
+    }))
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  useEffect(() => {
+    vscode.postMessage({ command: 'kanbn.updateMe' })
+  }, [])
+
+  // Store the calendar state whenever it changes
+  useEffect(() => {
+    vscode.setState(state)
+  }, [state])
+
+  const date = parseDayKey(state.date)
+  const mode: CalendarMode = state.mode
+  const days = getDays(mode, date)
+  const events = getEvents(state.tasks, state.showStarted, state.showCompleted)
+  const today = getDayKey(new Date())
+
+  // Move to the previous or next month or week
+  const changePage = (direction: -1 | 1): void => {
+    const newDate = new Date(date)
+    if (mode === 'month') {
+      newDate.setDate(1)
+      newDate.setMonth(newDate.getMonth() + direction)
+    } else {
+      newDate.setDate(newDate.getDate() + direction * 7)
+    }
+    setState({ ...state, date: getDayKey(newDate) })
+  }
+
+  // Called when a task's due date has been dragged to another day
+  const onDragEnd = (result): void => {
+    if (result.destination === undefined || result.destination === null) {
+      return
+    }
+    if (result.destination.droppableId === result.source.droppableId) {
+      return
+    }
+    const due = parseDayKey(result.destination.droppableId).toISOString()
+    setState({
+      ...state,
+      tasks: state.tasks.map((task: KanbnTask) => task.id === result.draggableId
+        ? { ...task, metadata: { ...task.metadata, due } }
+        : task
+      )
+    })
+    vscode.postMessage({
+      command: 'kanbn.setDue',
+      taskId: result.draggableId,
+      date: result.destination.droppableId
+    })
+  }
+
+  const openTask = (task: KanbnTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  const isCompleted = (task: KanbnTask): boolean => task.metadata.completed !== undefined ||
+    state.completedColumns.includes(task.column)
+
+  const renderEvent = (event: CalendarEvent): JSX.Element => (
+    <button
+      type="button"
+      className="kanbn-calendar-event-name"
+      onClick={() => openTask(event.task)}
+      title={`${event.task.name} (${event.task.column})`}
+    >
+      {event.type === 'started' && <i className="codicon codicon-play"></i>}
+      {event.type === 'completed' && <i className="codicon codicon-check"></i>}
+      {event.task.name}
+    </button>
+  )
+
+  return (
+    <>
+      <div className="kanbn-header">
+        <h1 className="kanbn-header-name">
+          <p>{state.name}</p>
+          <div className="kanbn-calendar-settings">
+            <button
+              type="button"
+              className="kanbn-header-button kanbn-calendar-previous"
+              onClick={() => changePage(-1)}
+              title={`Previous ${mode}`}
+            >
+              <i className="codicon codicon-chevron-left"></i>
+            </button>
+            <button
+              type="button"
+              className="kanbn-header-button kanbn-calendar-today"
+              onClick={() => setState({ ...state, date: today })}
+              title="Go to today"
+            >
+              Today
+            </button>
+            <button
+              type="button"
+              className="kanbn-header-button kanbn-calendar-next"
+              onClick={() => changePage(1)}
+              title={`Next ${mode}`}
+            >
+              <i className="codicon codicon-chevron-right"></i>
+            </button>
+            <span className="kanbn-calendar-title">
+              {mode === 'month' ? formatDate(date, 'mmmm yyyy') : `${formatDate(days[0], state.dateFormat)} - ${formatDate(days[6], state.dateFormat)}`}
+            </span>
+            <label className="kanbn-calendar-option">
+              <input
+                type="checkbox"
+                checked={state.showStarted}
+                onChange={e => setState({ ...state, showStarted: e.target.checked })}
+              />
+              Started
+            </label>
+            <label className="kanbn-calendar-option">
+              <input
+                type="checkbox"
+                checked={state.showCompleted}
+                onChange={e => setState({ ...state, showCompleted: e.target.checked })}
+              />
+              Completed
+            </label>
+            <button
+              type="button"
+              className={[
+                'kanbn-header-button',
+                'kanbn-calendar-month-mode',
+                mode === 'month' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+              ].join(' ')}
+              onClick={() => setState({ ...state, mode: 'month' })}
+              title="View a month"
+            >
+              Month
+            </button>
+            <button
+              type="button"
+              className={[
+                'kanbn-header-button',
+                'kanbn-calendar-week-mode',
+                mode === 'week' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+              ].join(' ')}
+              onClick={() => setState({ ...state, mode: 'week' })}
+              title="View a week"
+            >
+              Week
+            </button>
+          </div>
+        </h1>
+      </div>
+      <div className={`kanbn-calendar kanbn-calendar-${mode}`}>
+        {weekDays.map(weekDay => (
+          <div key={weekDay} className="kanbn-calendar-weekday">{weekDay}</div>
+        ))}
+        <DragDropContext onDragEnd={onDragEnd}>
+          {days.map(day => {
+            const dayKey = getDayKey(day)
+            const dayEvents = events[dayKey] ?? []
+            const dueEvents = dayEvents.filter(event => event.type === 'due')
+            return (
+              <Droppable key={dayKey} droppableId={dayKey}>
+                {(provided, snapshot) => (
+                  <div
+                    {...provided.droppableProps}
+                    ref={provided.innerRef}
+                    className={[
+                      'kanbn-calendar-day',
+                      dayKey === today ? 'kanbn-calendar-day-today' : null,
+                      day.getMonth() !== date.getMonth() && mode === 'month' ? 'kanbn-calendar-day-outside' : null,
+                      snapshot.isDraggingOver === true ? 'drag-over' : null
+                    ].filter(i => i).join(' ')}
+                  >
+                    <div className="kanbn-calendar-day-number">{day.getDate()}</div>
+                    {dueEvents.map((event, position) => (
+                      <Draggable key={event.task.id} draggableId={event.task.id} index={position}>
+                        {(provided, snapshot) => (
+                          <div
+                            ref={provided.innerRef}
+                            {...provided.draggableProps}
+                            {...provided.dragHandleProps}
+                            className={[
+                              'kanbn-calendar-event',
+                              'kanbn-calendar-event-due',
+                              !isCompleted(event.task) && dayKey < today ? 'kanbn-task-overdue' : null,
+                              snapshot.isDragging === true ? 'drag' : null
+                            ].filter(i => i).join(' ')}
+                            style={provided.draggableProps.style}
+                          >
+                            {renderEvent(event)}
+                          </div>
+                        )}
+                      </Draggable>
+                    ))}
+                    {provided.placeholder}
+                    {dayEvents.filter(event => event.type !== 'due').map(event => (
+                      <div key={`${event.type}-${event.task.id}`} className={`kanbn-calendar-event kanbn-calendar-event-${event.type}`}>
+                        {renderEvent(event)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Droppable>
+            )
+          })}
+        </DragDropContext>
+      </div>
+    </>
+  )
+}
+
+export default Calendar
@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+import { getDependencyDirection, getDependencies, getBlockedTasks } from './relations'
+import vscode from './vscode'
+
+const NODE_WIDTH = 180
+const NODE_HEIGHT = 40
+const GAP_X = 80
+const GAP_Y = 24
+const MIN_SCALE = 0.2
+const MAX_SCALE = 3
+
+// Colours for each column's nodes, in the same order as the board's columns
+const columnColours = ['#3c7', '#39f', '#f90', '#c6f', '#f55', '#3cc', '#fc3', '#999']
+
+interface Node {
+  task: KanbnTask
+  x: number
+  y: number
+}
+
+// An edge for a relation between two tasks. Dependency edges point from a task to the task that it blocks.
+interface Edge {
+  from: string
+  to: string
+  type: string
+  dependency: boolean
+}
+
+interface View {
+  x: number
+  y: number
+  scale: number
+}
+
+// Get an edge for each relation between the tasks in the graph
+const getEdges = (tasks: KanbnTask[]): Edge[] => {
+  const taskIds = new Set(tasks.map(task => task.id))
+  const edges = new Map<string, Edge>()
+  for (const task of tasks) {
+    for (const relation of task.relations) {
+      if (!taskIds.has(relation.task) || relation.task === task.id) {
+        continue
+      }
+      const direction = getDependencyDirection(relation.type)
+      const edge = direction === 'blocked-by'
+        ? { from: relation.task, to: task.id, type: relation.type, dependency: true }
+        : { from: task.id, to: relation.task, type: relation.type, dependency: direction === 'blocks' }
+      edges.set(`${edge.from} ${edge.to} ${edge.dependency ? 'dependency' : edge.type}`, edge)
+    }
+  }
+  return [...edges.values()]
+}
+
+// Lay the tasks out in layers, so that each task is to the right of the tasks that it depends on. Tasks in the same
+// layer are sorted by column, then by name.
+const getLayout = (tasks: KanbnTask[], columns: string[]): Node[] => {
+  const dependencies = getDependencies(tasks)
+  const depths: Record<string, number> = Object.fromEntries(tasks.map(task => [task.id, 0]))
+
+  // Dependency cycles would never settle, so stop after the longest possible path
+  for (let i = 0; i < tasks.length; i++) {
+    let changed = false
+    for (const { from, to } of dependencies) {
+      if (from in depths && to in depths && depths[to] < depths[from] + 1) {
+        depths[to] = depths[from] + 1
+        changed = true
+      }
+    }
+    if (!changed) {
+      break
+    }
+  }
+  const layers: KanbnTask[][] = []
+  for (const task of tasks) {
+    layers[depths[task.id]] = [...(layers[depths[task.id]] ?? []), task]
+  }
+  return layers.flatMap((layer, depth) => layer
+    .sort((a, b) => columns.indexOf(a.column) !== columns.indexOf(b.column)
+      ? columns.indexOf(a.column) - columns.indexOf(b.column)
+      : a.name.localeCompare(b.name)
+    )
+    .map((task, row) => ({
+      task,
+      x: depth * (NODE_WIDTH + GAP_X),
+      y: row * (NODE_HEIGHT + GAP_Y)
+    }))
+  )
+}
+
+const Graph = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    tasks: [],
+    columns: [],
+    completedColumns: [],
+    showUnrelated: false,
+    view: { x: 24, y: 24, scale: 1 }
+  })
+  const [pan, setPan] = useState<{ x: number, y: number } | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  const processMessage = useCallback(event => {
+    setState(state => ({
+      ...state,
+      name: event.data.index.name,
+      tasks: event.data.tasks,
+      columns: event.data.columns,
+      completedColumns: event.data.completedColumns
+    }))
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  useEffect(() => {
+    vscode.postMessage({ command: 'kanbn.updateMe' })
+  }, [])
+
+  // Store the graph state whenever it changes
+  useEffect(() => {
+    vscode.setState(state)
+  }, [state])
+
+  const view: View = state.view
+  const columns: string[] = state.columns
+  const allTasks: KanbnTask[] = state.tasks
+  const allEdges = getEdges(allTasks)
+
+  // Only show tasks that have relations with other tasks, unless unrelated tasks have been turned on
+  const relatedTaskIds = new Set(allEdges.flatMap(edge => [edge.from, edge.to]))
+  const tasks = state.showUnrelated === true ? allTasks : allTasks.filter(task => relatedTaskIds.has(task.id))
+  const nodes = getLayout(tasks, columns)
+  const positions = Object.fromEntries(nodes.map(node => [node.task.id, node]))
+  const edges = allEdges.filter(edge => edge.from in positions && edge.to in positions)
+  const blockedTasks = getBlockedTasks(allTasks, state.completedColumns)
+
+  const isCompleted = (task: KanbnTask): boolean => task.metadata.completed !== undefined ||
+    state.completedColumns.includes(task.column)
+
+  const getColumnColour = (columnName: string): string => columnColours[Math.max(0, columns.indexOf(columnName)) % columnColours.length]
+
+  const openTask = (task: KanbnTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  const setView = (view: View): void => {
+    setState(state => ({ ...state, view }))
+  }
+
+  // Zoom in or out, keeping the point under the cursor (or the centre of the graph) in the same place
+  const zoom = (factor: number, clientX?: number, clientY?: number): void => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    const x = clientX !== undefined && rect !== undefined ? clientX - rect.left : (rect?.width ?? 0) / 2
+    const y = clientY !== undefined && rect !== undefined ? clientY - rect.top : (rect?.height ?? 0) / 2
+    const scale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, view.scale * factor))
+    setView({
+      x: x - (x - view.x) * scale / view.scale,
+      y: y - (y - view.y) * scale / view.scale,
+      scale
+    })
+  }
+
+  const renderEdge = (edge: Edge): JSX.Element => {
+    const from = positions[edge.from]
+    const to = positions[edge.to]
+    const forwards = to.x > from.x
+    const x1 = forwards ? from.x + NODE_WIDTH : from.x + NODE_WIDTH / 2
+    const y1 = forwards ? from.y + NODE_HEIGHT / 2 : from.y + NODE_HEIGHT
+    const x2 = forwards ? to.x : to.x + NODE_WIDTH / 2
+    const y2 = forwards ? to.y + NODE_HEIGHT / 2 : (to.y > from.y ? to.y : to.y + NODE_HEIGHT)
+    const path = forwards
+      ? `M ${x1} ${y1} C ${x1 + GAP_X / 2} ${y1}, ${x2 - GAP_X / 2} ${y2}, ${x2} ${y2}`
+      : `M ${x1} ${y1} C ${x1 + GAP_X / 2} ${(y1 + y2) / 2}, ${x2 + GAP_X / 2} ${(y1 + y2) / 2}, ${x2} ${y2}`
+    return (
+      <g
+        key={`${edge.from} ${edge.to} ${edge.type}`}
+        className={[
+          'kanbn-graph-edge',
+          edge.dependency ? 'kanbn-graph-edge-dependency' : null,
+          edge.type !== '' ? `kanbn-graph-edge-${paramCase(edge.type) as string}` : null,
+          edge.dependency && (blockedTasks[edge.to] ?? []).includes(edge.from) ? 'kanbn-graph-edge-blocking' : null
+        ].filter(i => i).join(' ')}
+      >
+        <path className="kanbn-graph-edge-line" d={path} markerEnd="url(#kanbn-graph-arrow)" />
+        {edge.type !== '' && (
+          <text className="kanbn-graph-edge-label" x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 4} textAnchor="middle">
+            {edge.type}
+          </text>
+        )}
+      </g>
+    )
+  }
+
+  return (
+    <>
+      <div className="kanbn-header">
+        <h1 className="kanbn-header-name">
+          <p>{state.name}</p>
+          <div className="kanbn-graph-settings">
+            <label className="kanbn-graph-option">
+              <input
+                type="checkbox"
+                checked={state.showUnrelated}
+                onChange={e => setState({ ...state, showUnrelated: e.target.checked })}
+              />
+              Unrelated tasks
+            </label>
+            <button
+              type="button"
+              className="kanbn-header-button kanbn-graph-zoom-out"
+              onClick={() => zoom(1 / 1.25)}
+              title="Zoom out"
+            >
+              <i className="codicon codicon-zoom-out"></i>
+            </button>
+            <button
+              type="button"
+              className="kanbn-header-button kanbn-graph-zoom-in"
+              onClick={() => zoom(1.25)}
+              title="Zoom in"
+            >
+              <i className="codicon codicon-zoom-in"></i>
+            </button>
+            <button
+              type="button"
+              className="kanbn-header-button kanbn-graph-reset"
+              onClick={() => setView({ x: 24, y: 24, scale: 1 })}
+              title="Reset zoom"
+            >
+              <i className="codicon codicon-screen-normal"></i>
+            </button>
+          </div>
+        </h1>
+      </div>
+      <div className="kanbn-graph-legend">
+        {columns.map(columnName => (
+          <span key={columnName} className={`kanbn-graph-legend-column kanbn-graph-legend-column-${paramCase(columnName) as string}`}>
+            <span className="kanbn-graph-legend-swatch" style={{ backgroundColor: getColumnColour(columnName) }}></span>
+            {columnName}
+          </span>
+        ))}
+      </div>
+      <div className="kanbn-graph">
+        {nodes.length === 0 && <p className="kanbn-graph-empty">None of the tasks on this board are related to each other.</p>}
+        <svg
+          ref={svgRef}
+          className={['kanbn-graph-chart', pan !== null ? 'drag' : null].filter(i => i).join(' ')}
+          onWheel={e => zoom(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX, e.clientY)}
+          onPointerDown={e => {
+            e.currentTarget.setPointerCapture(e.pointerId)
+            setPan({ x: e.clientX - view.x, y: e.clientY - view.y })
+          }}
+          onPointerMove={e => {
+            if (pan !== null) {
+              setView({ ...view, x: e.clientX - pan.x, y: e.clientY - pan.y })
+            }
+          }}
+          onPointerUp={() => setPan(null)}
+          onPointerCancel={() => setPan(null)}
+        >
+          <defs>
+            <marker id="kanbn-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path className="kanbn-graph-arrow-head" d="M 0 0 L 10 5 L 0 10 z" />
+            </marker>
+          </defs>
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+            {edges.map(renderEdge)}
+            {nodes.map(({ task, x, y }) => {
+              const blockedBy = blockedTasks[task.id] ?? []
+              return (
+                <g
+                  key={task.id}
+                  className={[
+                    'kanbn-graph-node',
+                    `kanbn-graph-node-column-${paramCase(task.column) as string}`,
+                    isCompleted(task) ? 'kanbn-graph-node-completed' : null,
+                    blockedBy.length > 0 ? 'kanbn-graph-node-blocked' : null
+                  ].filter(i => i).join(' ')}
+                  transform={`translate(${x} ${y})`}
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => openTask(task)}
+                >
+                  <title>{[
+                    `${task.name} (${task.column})`,
+                    blockedBy.length > 0
+                      ? `Blocked by ${blockedBy.map(taskId => allTasks.find(task => task.id === taskId)?.name ?? taskId).join(', ')}`
+                      : null
+                  ].filter(i => i).join('\n')}</title>
+                  <rect className="kanbn-graph-node-body" width={NODE_WIDTH} height={NODE_HEIGHT} rx={4} style={{ stroke: getColumnColour(task.column) }} />
+                  <rect className="kanbn-graph-node-column" width={6} height={NODE_HEIGHT} rx={2} style={{ fill: getColumnColour(task.column) }} />
+                  <text className="kanbn-graph-node-name" x={14} y={NODE_HEIGHT / 2 + 4}>
+                    {task.name.length > 22 ? `${task.name.slice(0, 21)}…` : task.name}
+                  </text>
+                </g>
+              )
+            })}
+          </g>
+        </svg>
+      </div>
+    </>
+  )
+}
+
+export default Graph
@@ -0,0 +1,11 @@
+// A named board view, saved in the index options so that it can be shared with everyone using the board
+declare interface KanbnBoardView {
+  name: string
+  filter?: string
+  hiddenColumns?: string[]
+  sortBy?: {
+    field: string
+    order: 'ascending' | 'descending'
+  }
+  swimlanes?: string
+}
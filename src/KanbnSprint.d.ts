@@ -3,4 +3,8 @@ declare interface KanbnSprint {
   start: string
   name: string
   description?: string
+  end?: string
+  goal?: string
+  tasks?: string[]
+  closed?: string
 }
@@ -15,6 +15,10 @@ declare interface KanbnTask {
     completed?: string
     assigned?: string
     tags?: string[]
+    timeLog?: Array<{
+      start: string
+      end: string
+    }>
   }
   relations: Array<{
     type: string
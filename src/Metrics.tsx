@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  ResponsiveContainer,
+  ScatterChart,
+  Scatter,
+  BarChart,
+  Bar,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  ReferenceLine
+} from 'recharts'
+import formatDate from 'dateformat'
+import { getTaskMetrics, getThroughput, getSprintRange, percentile, TaskMetrics } from './metrics'
+import vscode from './vscode'
+
+const percentiles = [50, 85, 95]
+
+const formatDays = (days: number | null): string => days === null ? '-' : `${days.toFixed(1)} days`
+
+const Metrics = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    tasks: [],
+    sprints: [],
+    dateFormat: 'yyyy-mm-dd',
+    tag: '',
+    assignee: '',
+    sprint: ''
+  })
+
+  const processMessage = useCallback(event => {
+    setState(state => ({
+      ...state,
+      name: event.data.index.name,
+      tasks: event.data.tasks,
+      sprints: event.data.sprints,
+      dateFormat: event.data.dateFormat
+    }))
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  useEffect(() => {
+    vscode.postMessage({ command: 'kanbn.updateMe' })
+  }, [])
+
+  // Store the metrics state whenever it changes
+  useEffect(() => {
+    vscode.setState(state)
+  }, [state])
+
+  const tasks: KanbnTask[] = state.tasks
+  const tags = [...new Set(tasks.flatMap(task => task.metadata.tags ?? []))].sort((a, b) => a.localeCompare(b))
+  const assignees = [...new Set(tasks.flatMap(task => task.metadata.assigned ?? []))].sort((a, b) => a.localeCompare(b))
+
+  // Only include tasks that match the filters. When a sprint is selected, only tasks completed during that sprint
+  // are included.
+  const sprintRange = state.sprint === '' ? null : getSprintRange(state.sprints, state.sprint)
+  const taskMetrics = getTaskMetrics(tasks.filter(task =>
+    (state.tag === '' || (task.metadata.tags ?? []).includes(state.tag)) &&
+    (state.assignee === '' || task.metadata.assigned === state.assignee)
+  )).filter(({ completed }) => sprintRange === null || (completed >= sprintRange.from && completed < sprintRange.to))
+
+  const leadTimes = taskMetrics.flatMap(({ leadTime }) => leadTime === null ? [] : [leadTime])
+  const cycleTimes = taskMetrics.flatMap(({ cycleTime }) => cycleTime === null ? [] : [cycleTime])
+  const throughput = getThroughput(taskMetrics)
+  const averageThroughput = throughput.length > 0
+    ? throughput.reduce((total, { count }) => total + count, 0) / throughput.length
+    : null
+
+  const cycleTimeData = taskMetrics.flatMap(metrics => metrics.cycleTime === null
+    ? []
+    : [{ x: metrics.completed.getTime(), y: metrics.cycleTime, metrics }]
+  )
+  const throughputData = throughput.map(({ week, count }) => ({ x: formatDate(week, state.dateFormat), y: count }))
+
+  const openTask = (task: KanbnTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  const renderCycleTimeTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const metrics: TaskMetrics = e.payload[0].payload.metrics
+      return (
+        <div className="kanbn-metrics-tooltip">
+          <p className="kanbn-metrics-tooltip-task">{metrics.task.name}</p>
+          <p className="kanbn-metrics-tooltip-date">Completed {formatDate(metrics.completed, state.dateFormat)}</p>
+          <p>Cycle time: {formatDays(metrics.cycleTime)}</p>
+          <p>Lead time: {formatDays(metrics.leadTime)}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  const renderThroughputTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const data = e.payload[0].payload
+      return (
+        <div className="kanbn-metrics-tooltip">
+          <p className="kanbn-metrics-tooltip-date">Week of {data.x}</p>
+          <p>{data.y} task{data.y === 1 ? '' : 's'} completed</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <>
+      <div className="kanbn-header">
+        <h1 className="kanbn-header-name">
+          <p>{state.name}</p>
+          <div className="kanbn-metrics-settings">
+            <select
+              value={state.tag}
+              className="kanbn-metrics-settings-select kanbn-metrics-settings-tag"
+              onChange={e => setState({ ...state, tag: e.target.value })}
+              title="Filter by tag"
+            >
+              <option value="">All tags</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+            <select
+              value={state.assignee}
+              className="kanbn-metrics-settings-select kanbn-metrics-settings-assignee"
+              onChange={e => setState({ ...state, assignee: e.target.value })}
+              title="Filter by assignee"
+            >
+              <option value="">All assignees</option>
+              {assignees.map(assignee => <option key={assignee} value={assignee}>{assignee}</option>)}
+            </select>
+            <select
+              value={state.sprint}
+              className="kanbn-metrics-settings-select kanbn-metrics-settings-sprint"
+              onChange={e => setState({ ...state, sprint: e.target.value })}
+              title="Filter by sprint"
+            >
+              <option value="">All sprints</option>
+              {state.sprints.map((sprint: KanbnSprint) => <option key={sprint.start} value={sprint.name}>{sprint.name}</option>)}
+            </select>
+          </div>
+        </h1>
+      </div>
+      <div className="kanbn-metrics">
+        <table className="kanbn-metrics-summary">
+          <thead>
+            <tr>
+              <th></th>
+              {percentiles.map(p => <th key={p}>{p}th percentile</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="kanbn-metrics-lead-time">
+              <th>Lead time</th>
+              {percentiles.map(p => <td key={p}>{formatDays(percentile(leadTimes, p))}</td>)}
+            </tr>
+            <tr className="kanbn-metrics-cycle-time">
+              <th>Cycle time</th>
+              {percentiles.map(p => <td key={p}>{formatDays(percentile(cycleTimes, p))}</td>)}
+            </tr>
+          </tbody>
+        </table>
+        <p className="kanbn-metrics-throughput-summary">
+          {taskMetrics.length} task{taskMetrics.length === 1 ? '' : 's'} completed
+          {averageThroughput !== null && `, ${averageThroughput.toFixed(1)} per week on average`}
+        </p>
+        <h2 className="kanbn-metrics-heading">Cycle time</h2>
+        <ResponsiveContainer width="100%" height={300} className="kanbn-metrics-chart kanbn-metrics-cycle-time-chart">
+          <ScatterChart>
+            <CartesianGrid className="kanbn-metrics-grid" strokeDasharray="5 5" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={date => formatDate(new Date(date), state.dateFormat)}
+              tickCount={6}
+              name="Completed"
+            />
+            <YAxis dataKey="y" type="number" name="Cycle time" unit="d" />
+            <ZAxis range={[60, 60]} />
+            {percentiles.map(p => {
+              const value = percentile(cycleTimes, p)
+              return value !== null && (
+                <ReferenceLine
+                  key={p}
+                  y={value}
+                  className="kanbn-metrics-percentile"
+                  strokeDasharray="3 3"
+                  label={{ value: `${p}%`, position: 'right' }}
+                />
+              )
+            })}
+            <Tooltip content={renderCycleTimeTooltip} />
+            <Scatter
+              className="kanbn-metrics-cycle-time-point"
+              data={cycleTimeData}
+              onClick={data => openTask(data.metrics.task)}
+              isAnimationActive={false}
+            />
+          </ScatterChart>
+        </ResponsiveContainer>
+        <h2 className="kanbn-metrics-heading">Throughput</h2>
+        <ResponsiveContainer width="100%" height={300} className="kanbn-metrics-chart kanbn-metrics-throughput-chart">
+          <BarChart data={throughputData}>
+            <CartesianGrid className="kanbn-metrics-grid" strokeDasharray="5 5" vertical={false} />
+            <XAxis dataKey="x" />
+            <YAxis allowDecimals={false} />
+            <Tooltip content={renderThroughputTooltip} />
+            <Bar className="kanbn-metrics-throughput-bar" dataKey="y" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </>
+  )
+}
+
+export default Metrics
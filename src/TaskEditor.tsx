@@ -5,6 +5,8 @@ import React, { useEffect, useState, useCallback } from 'react'
 import { useForm, useFieldArray, useWatch } from 'react-hook-form'
 import formatDate from 'dateformat'
 import vscode from './vscode'
+import { getTimeLogged } from './timeLog'
+import { HOUR, formatDuration } from './duration'
 import { paramCase } from '@basementuniverse/kanbn/src/utility'
 import ReactMarkdown from 'react-markdown'
 // import TextareaAutosize from 'react-textarea-autosize'
@@ -123,6 +125,7 @@ interface EditorState {
   startedDate: string | null
   dueDate: string | null
   completedDate: string | null
+  recurrence: string
   tags: Tag[]
   progress: number
   customFields: CustomField[]
@@ -140,6 +143,10 @@ interface TaskState {
   columnNames: string[]
   createdDate: Date | null
   updatedDate: Date | null
+  workload: number | null
+  // Hours logged by the task's timer
+  timeLogged: number
+  timerRunning: boolean
   customFields: CustomField[]
 }
 
@@ -168,6 +175,20 @@ const TaskEditor = (): JSX.Element => {
     })
   }
 
+  // Called when the start work button is clicked
+  const handleStartWork = (): void => {
+    vscode.postMessage({
+      command: 'kanbn.startWork'
+    })
+  }
+
+  // Called when the start or stop timer button is clicked
+  const handleToggleTimer = (): void => {
+    vscode.postMessage({
+      command: 'kanbn.toggleTimer'
+    })
+  }
+
   // Called when the archive task button is clicked
   const handleArchiveTask = (): void => {
     vscode.postMessage({
@@ -273,6 +294,9 @@ const TaskEditor = (): JSX.Element => {
       dateFormat: event.data.dateFormat,
       createdDate: event.data.task?.metadata?.created ?? null,
       updatedDate: event.data.task?.metadata?.updated ?? null,
+      workload: event.data.task?.workload ?? null,
+      timeLogged: event.data.task !== null ? getTimeLogged(event.data.task) : 0,
+      timerRunning: event.data.timerRunning === true,
       customFields: event.data.customFields ?? []
     }
     setState(newState)
@@ -289,21 +313,25 @@ const TaskEditor = (): JSX.Element => {
 
         return `${year}-${month}-${day}`
       }
+
+      // New tasks can be pre-filled from a template
+      const source = event.data.task ?? event.data.template
       reset(
         {
           name: event.data.task?.name ?? '',
-          description: event.data.task?.description ?? '',
+          description: source?.description ?? '',
           column: event.data.columnName,
-          progress: event.data.task?.metadata?.progress ?? 0,
-          relations: event.data.task?.relations ?? [],
-          subTasks: event.data.task?.subTasks ?? [],
+          progress: source?.metadata?.progress ?? 0,
+          relations: source?.relations ?? [],
+          subTasks: source?.subTasks ?? [],
           comments: event.data.task?.comments ?? [],
-          customFields: event.data.customFields?.map((customField: { name: string, type: string }) => ({ ...customField, value: (customField.type === 'date' ? formatDateString(event.data.task?.metadata[customField.name]) : event.data.task?.metadata[customField.name]) })) ?? [],
-          tags: event.data.task?.metadata?.tags.map((tag: string): Tag => ({ tag })) ?? [],
-          dueDate: formatDateString(event.data.task?.metadata?.due),
+          customFields: event.data.customFields?.map((customField: { name: string, type: string }) => ({ ...customField, value: (customField.type === 'date' ? formatDateString(source?.metadata[customField.name]) : source?.metadata[customField.name]) })) ?? [],
+          tags: source?.metadata?.tags?.map((tag: string): Tag => ({ tag })) ?? [],
+          dueDate: formatDateString(source?.metadata?.due),
           startedDate: formatDateString(event.data.task?.metadata?.started),
           completedDate: formatDateString(event.data.task?.metadata?.completed),
-          assignedTo: event.data.task?.metadata?.assigned ?? ''
+          assignedTo: source?.metadata?.assigned ?? '',
+          recurrence: source?.metadata?.recurrence ?? ''
         }
       )
     }
@@ -343,6 +371,27 @@ const TaskEditor = (): JSX.Element => {
           >
             <i className="codicon codicon-trash"></i>Delete
           </button>}
+          {state.taskCreated && <button
+            type="button"
+            className="kanbn-task-editor-button kanbn-task-editor-button-start-work"
+            title="Start work on this task in a new git branch"
+            onClick={() => {
+              handleStartWork()
+            }}
+          >
+            <i className="codicon codicon-git-branch"></i>Start work
+          </button>}
+          {state.taskCreated && <button
+            type="button"
+            className="kanbn-task-editor-button kanbn-task-editor-button-timer"
+            title={state.timerRunning ? 'Stop the timer and log the time' : 'Start the timer for this task'}
+            onClick={() => {
+              handleToggleTimer()
+            }}
+          >
+            <i className={`codicon codicon-${state.timerRunning ? 'debug-stop' : 'watch'}`}></i>
+            {state.timerRunning ? 'Stop timer' : 'Start timer'}
+          </button>}
           {state.taskCreated && <button
             type="button"
             className="kanbn-task-editor-button kanbn-task-editor-button-archive"
@@ -370,6 +419,14 @@ const TaskEditor = (): JSX.Element => {
             ].filter(i => i).join(', ')
           }
         </span>}
+        {state.taskCreated && (state.workload !== null || state.timeLogged > 0) && <span className="kanbn-task-editor-time">
+          {
+            [
+              state.workload !== null ? `Workload ${state.workload}` : null,
+              state.timeLogged > 0 ? `${formatDuration(state.timeLogged * HOUR)} logged` : null
+            ].filter(i => i).join(', ')
+          }
+        </span>}
         <div className="kanbn-task-editor-form">
           <div className="kanbn-task-editor-column-left">
             <div className="kanbn-task-editor-field kanbn-task-editor-field-name">
@@ -591,6 +648,25 @@ const TaskEditor = (): JSX.Element => {
                 />
               </label>
             </div>
+            <div className="kanbn-task-editor-field kanbn-task-editor-field-recurrence">
+              <label className="kanbn-task-editor-field-label">
+                <p>Repeats</p>
+                <input
+                  {...register('recurrence', { pattern: /^\s*(daily|weekly|monthly|sprint|every [1-9]\d* days?)?\s*$/i })}
+                  className="kanbn-task-editor-field-input"
+                  list="kanbn-task-editor-recurrence-options"
+                  placeholder="Never"
+                  title="daily, weekly, monthly, sprint or every {n} days"
+                />
+                <datalist id="kanbn-task-editor-recurrence-options">
+                  <option value="daily" />
+                  <option value="weekly" />
+                  <option value="monthly" />
+                  <option value="sprint" />
+                  <option value="every 2 days" />
+                </datalist>
+              </label>
+            </div>
             <div className="kanbn-task-editor-field kanbn-task-editor-field-completed">
               <label className="kanbn-task-editor-field-label">
                 <p>Completed date</p>
@@ -3,9 +3,18 @@ import { Draggable } from 'react-beautiful-dnd'
 import formatDate from 'dateformat'
 import { paramCase } from '@basementuniverse/kanbn/src/utility'
 import vscode from './vscode'
+import { getTimeLogged } from './timeLog'
+import { HOUR, formatDuration } from './duration'
 
-const TaskItem = ({ task, columnName, customFields, position, dateFormat }: {
+const TaskItem = ({ task, draggableId, selected, blockedBy, timerRunning, onSelect, columnName, customFields, position, dateFormat }: {
   task: KanbnTask
+  draggableId?: string
+  selected?: boolean
+  // The names of incomplete tasks that this task depends on
+  blockedBy?: string[]
+  // True if the timer is running for this task
+  timerRunning?: boolean
+  onSelect?: (e: React.MouseEvent) => void
   columnName: string
   customFields: Array<{ name: string, type: 'boolean' | 'date' | 'number' | 'string' }>
   position: number
@@ -28,7 +37,7 @@ const TaskItem = ({ task, columnName, customFields, position, dateFormat }: {
   return (
     <Draggable
       key={task.id}
-      draggableId={task.id}
+      draggableId={draggableId ?? task.id}
       index={position}
     >
       {(provided, snapshot) => {
@@ -44,14 +53,57 @@ const TaskItem = ({ task, columnName, customFields, position, dateFormat }: {
               `kanbn-task-column-${String(paramCase(columnName))}`,
               checkOverdue(task) ? 'kanbn-task-overdue' : null,
               completedDate ?? 'kanbn-task-completed',
+              selected === true ? 'kanbn-task-selected' : null,
+              blockedBy !== undefined && blockedBy.length > 0 ? 'kanbn-task-blocked' : null,
+              timerRunning === true ? 'kanbn-task-timer-running' : null,
               isDragging ? 'drag' : null
             ].filter(i => i).join(' ')}
+            onClickCapture={e => {
+              // Ctrl/shift-clicking a task selects it instead of opening it
+              if (onSelect !== undefined && (e.ctrlKey || e.metaKey || e.shiftKey)) {
+                e.preventDefault()
+                e.stopPropagation()
+                onSelect(e)
+              }
+            }}
             style={{
               userSelect: 'none',
               ...provided.draggableProps.style
             }}
           >
             <div className="kanbn-task-data kanbn-task-data-name">
+              {
+                completedDate === null &&
+                <button
+                  type="button"
+                  className="kanbn-task-start-work-button"
+                  onClick={() => {
+                    vscode.postMessage({
+                      command: 'kanbn.startWork',
+                      taskId: task.id
+                    })
+                  }}
+                  title="Start work on this task in a new git branch"
+                >
+                  <i className="codicon codicon-git-branch"></i>
+                </button>
+              }
+              {
+                (completedDate === null || timerRunning === true) &&
+                <button
+                  type="button"
+                  className="kanbn-task-timer-button"
+                  onClick={() => {
+                    vscode.postMessage({
+                      command: 'kanbn.toggleTimer',
+                      taskId: task.id
+                    })
+                  }}
+                  title={timerRunning === true ? 'Stop the timer' : 'Start the timer'}
+                >
+                  <i className={`codicon codicon-${timerRunning === true ? 'debug-stop' : 'watch'}`}></i>
+                </button>
+              }
               <button
                 type="button"
                 onClick={() => {
@@ -175,6 +227,19 @@ const TaskItem = ({ task, columnName, customFields, position, dateFormat }: {
                 <i className="codicon codicon-run"></i>{task.workload}
               </div>
             }
+            {
+              task.metadata.timeLog !== undefined &&
+              task.metadata.timeLog.length > 0 &&
+              <div className="kanbn-task-data kanbn-task-data-time" title="Time logged">
+                <i className="codicon codicon-history"></i>{formatDuration(getTimeLogged(task) * HOUR)}
+              </div>
+            }
+            {
+              blockedBy !== undefined && blockedBy.length > 0 &&
+              <div className="kanbn-task-data kanbn-task-data-blocked" title={`Blocked by ${blockedBy.join(', ')}`}>
+                <i className="codicon codicon-circle-slash"></i>Blocked
+              </div>
+            }
             {
               task.relations.length > 0 &&
               task.relations.map(relation => (
@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import formatDate from 'dateformat'
+import { compileFilter, FilterSyntaxError } from './filter'
+import { getDependencies } from './relations'
+import vscode from './vscode'
+
+const DAY = 24 * 60 * 60 * 1000
+const ROW_HEIGHT = 28
+const HEADER_HEIGHT = 44
+const LABEL_WIDTH = 220
+const zoomLevels = [8, 16, 24, 32, 48]
+
+type DragMode = 'move' | 'start' | 'end'
+
+interface Bar {
+  task: KanbnTask
+  start: Date
+  end: Date
+  // True if the task has no due or completed date, so the bar only shows when it started
+  open: boolean
+}
+
+interface Drag {
+  taskId: string
+  mode: DragMode
+  x: number
+  offset: number
+}
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const getDayKey = (date: Date): string => [
+  date.getFullYear(),
+  `${date.getMonth() + 1}`.padStart(2, '0'),
+  `${date.getDate()}`.padStart(2, '0')
+].join('-')
+
+const parseDate = (date: string | undefined): Date | null => {
+  if (date === undefined || isNaN(Date.parse(date))) {
+    return null
+  }
+  return startOfDay(new Date(date))
+}
+
+// A task's bar runs from its started (or created) date to its due (or completed) date
+const getBar = (task: KanbnTask): Bar | null => {
+  const start = parseDate(task.metadata.started ?? task.metadata.created)
+  if (start === null) {
+    return null
+  }
+  const end = parseDate(task.metadata.due) ?? parseDate(task.metadata.completed)
+  return {
+    task,
+    start,
+    end: end !== null && end > start ? end : start,
+    open: end === null
+  }
+}
+
+// Get the dates of a bar while it is being moved or resized
+const applyDrag = (bar: Bar, drag: Drag | null): Bar => {
+  if (drag === null || drag.taskId !== bar.task.id) {
+    return bar
+  }
+  switch (drag.mode) {
+    case 'move':
+      return { ...bar, start: addDays(bar.start, drag.offset), end: addDays(bar.end, drag.offset) }
+    case 'start': {
+      const start = addDays(bar.start, drag.offset)
+      return { ...bar, start: start > bar.end ? bar.end : start }
+    }
+    case 'end': {
+      const end = addDays(bar.end, drag.offset)
+      return { ...bar, end: end < bar.start ? bar.start : end }
+    }
+  }
+}
+
+const Timeline = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    tasks: [],
+    completedColumns: [],
+    customFields: [],
+    views: [],
+    dateFormat: 'yyyy-mm-dd',
+    taskFilter: '',
+    view: null,
+    dayWidth: 24
+  })
+  const [drag, setDrag] = useState<Drag | null>(null)
+
+  const processMessage = useCallback(event => {
+    setState(state => ({
+      ...state,
+      name: event.data.index.name,
+      tasks: event.data.tasks,
+      completedColumns: event.data.completedColumns,
+      customFields: event.data.customFields,
+      views: event.data.views,
+      taskFilter: event.data.filter,
+      view: event.data.view,
+      dateFormat: event.data.dateFormat
+    }))
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  useEffect(() => {
+    vscode.postMessage({ command: 'kanbn.updateMe' })
+  }, [])
+
+  // Store the timeline state whenever it changes
+  useEffect(() => {
+    vscode.setState(state)
+  }, [state])
+
+  const taskFilter: string = state.taskFilter
+  const dayWidth: number = state.dayWidth
+
+  // Parse the filter string, showing any syntax errors instead of hiding every task
+  const [filterTask, filterError] = useMemo((): [(task: KanbnTask) => boolean, FilterSyntaxError | null] => {
+    try {
+      return [compileFilter(taskFilter, state.customFields), null]
+    } catch (error) {
+      if (error instanceof FilterSyntaxError) {
+        return [() => true, error]
+      }
+      throw error
+    }
+  }, [taskFilter, state.customFields])
+
+  // The timeline shows the same tasks as the board, so it uses the board's filter and the columns shown by the
+  // board's view
+  const currentView = (state.views as KanbnBoardView[]).find(view => view.name === state.view)
+  const hiddenColumns: string[] = currentView?.hiddenColumns ?? []
+
+  const filterLabel = [
+    currentView !== undefined ? `View: ${currentView.name}` : null,
+    taskFilter !== '' ? `Filter: ${taskFilter}` : null
+  ].filter(i => i).join(', ')
+
+  const bars = (state.tasks as KanbnTask[])
+    .filter(task => !hiddenColumns.includes(task.column))
+    .filter(filterTask)
+    .map(getBar)
+    .filter((bar): bar is Bar => bar !== null)
+    .sort((a, b) => a.start.getTime() !== b.start.getTime()
+      ? a.start.getTime() - b.start.getTime()
+      : a.end.getTime() - b.end.getTime()
+    )
+
+  // The timeline shows a few days either side of the tasks, and always includes today
+  const today = startOfDay(new Date())
+  const rangeStart = addDays(new Date(Math.min(today.getTime(), ...bars.map(bar => bar.start.getTime()))), -3)
+  const rangeEnd = addDays(new Date(Math.max(today.getTime(), ...bars.map(bar => bar.end.getTime()))), 3)
+  const getDayIndex = (date: Date): number => Math.round((date.getTime() - rangeStart.getTime()) / DAY)
+  const days = Array.from({ length: getDayIndex(rangeEnd) + 1 }, (_, i) => addDays(rangeStart, i))
+  const width = LABEL_WIDTH + days.length * dayWidth
+  const height = HEADER_HEIGHT + bars.length * ROW_HEIGHT
+  const rows = Object.fromEntries(bars.map((bar, row) => [bar.task.id, { bar: applyDrag(bar, drag), row }]))
+  const getBarX = (bar: Bar): [number, number] => [
+    LABEL_WIDTH + getDayIndex(bar.start) * dayWidth,
+    LABEL_WIDTH + (getDayIndex(bar.end) + 1) * dayWidth
+  ]
+  const getRowY = (row: number): number => HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2
+
+  const isCompleted = (task: KanbnTask): boolean => task.metadata.completed !== undefined ||
+    state.completedColumns.includes(task.column)
+
+  const openTask = (task: KanbnTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  // Write the new dates back to the task once a bar has been moved or resized
+  const endDrag = (bar: Bar): void => {
+    if (drag === null) {
+      return
+    }
+    setDrag(null)
+    if (drag.offset === 0) {
+      return
+    }
+    const newBar = applyDrag(bar, drag)
+    const started = drag.mode !== 'end' ? getDayKey(newBar.start) : undefined
+    const due = drag.mode !== 'start' ? getDayKey(newBar.end) : undefined
+    setState({
+      ...state,
+      tasks: state.tasks.map((task: KanbnTask) => task.id === bar.task.id
+        ? {
+            ...task,
+            metadata: {
+              ...task.metadata,
+              ...(started !== undefined ? { started: newBar.start.toISOString() } : {}),
+              ...(due !== undefined ? { due: newBar.end.toISOString() } : {})
+            }
+          }
+        : task
+      )
+    })
+    vscode.postMessage({
+      command: 'kanbn.setDates',
+      taskId: bar.task.id,
+      started,
+      due
+    })
+  }
+
+  // Event handlers for dragging a bar, or one of its ends
+  const dragHandlers = (bar: Bar, mode: DragMode): React.SVGProps<SVGRectElement> => ({
+    onPointerDown: e => {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setDrag({ taskId: bar.task.id, mode, x: e.clientX, offset: 0 })
+    },
+    onPointerMove: e => {
+      if (drag !== null && drag.taskId === bar.task.id) {
+        setDrag({ ...drag, offset: Math.round((e.clientX - drag.x) / dayWidth) })
+      }
+    },
+    onPointerUp: () => endDrag(bar),
+    onPointerCancel: () => setDrag(null)
+  })
+
+  const zoom = (direction: -1 | 1): void => {
+    const zoomLevel = Math.max(0, Math.min(zoomLevels.length - 1, zoomLevels.indexOf(dayWidth) + direction))
+    setState({ ...state, dayWidth: zoomLevels[zoomLevel] })
+  }
+
+  return (
+    <>
+      <div className="kanbn-header">
+        <h1 className="kanbn-header-name">
+          <p>{state.name}</p>
+          <div className="kanbn-filter">
+            <form>
+              <p className="kanbn-timeline-filter" title="Change the filter on the board to filter the timeline">
+                {filterLabel !== '' ? filterLabel : 'All tasks'}
+              </p>
+              <button
+                type="button"
+                className="kanbn-header-button kanbn-timeline-zoom-out"
+                onClick={() => zoom(-1)}
+                title="Zoom out"
+              >
+                <i className="codicon codicon-zoom-out"></i>
+              </button>
+              <button
+                type="button"
+                className="kanbn-header-button kanbn-timeline-zoom-in"
+                onClick={() => zoom(1)}
+                title="Zoom in"
+              >
+                <i className="codicon codicon-zoom-in"></i>
+              </button>
+            </form>
+            {
+              filterError !== null &&
+              <p className="kanbn-filter-error" title={`Error at position ${filterError.position + 1}`}>
+                {filterError.message}
+              </p>
+            }
+          </div>
+        </h1>
+      </div>
+      <div className="kanbn-timeline">
+        <svg className="kanbn-timeline-chart" width={width} height={height}>
+          <defs>
+            <marker id="kanbn-timeline-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path className="kanbn-timeline-arrow-head" d="M 0 0 L 10 5 L 0 10 z" />
+            </marker>
+          </defs>
+          {days.map((day, i) => {
+            const x = LABEL_WIDTH + i * dayWidth
+            const showLabel = dayWidth >= 24 || day.getDay() === 1
+            return (
+              <g key={i} className={[
+                'kanbn-timeline-day',
+                day.getDay() === 0 || day.getDay() === 6 ? 'kanbn-timeline-weekend' : null,
+                day.getTime() === today.getTime() ? 'kanbn-timeline-today' : null
+              ].filter(i => i).join(' ')}>
+                <rect className="kanbn-timeline-day-background" x={x} y={HEADER_HEIGHT} width={dayWidth} height={height - HEADER_HEIGHT} />
+                {(i === 0 || day.getDate() === 1) && (
+                  <text className="kanbn-timeline-month" x={x + 2} y={16}>{formatDate(day, 'mmm yyyy')}</text>
+                )}
+                {showLabel && (
+                  <text className="kanbn-timeline-day-label" x={x + 2} y={HEADER_HEIGHT - 8}>{day.getDate()}</text>
+                )}
+              </g>
+            )
+          })}
+          {bars.map((bar, row) => (
+            <text
+              key={bar.task.id}
+              className="kanbn-timeline-task-name"
+              x={8}
+              y={getRowY(row) + 4}
+              onClick={() => openTask(bar.task)}
+            >
+              <title>{`${bar.task.name} (${bar.task.column})`}</title>
+              {bar.task.name.length > 28 ? `${bar.task.name.slice(0, 27)}…` : bar.task.name}
+            </text>
+          ))}
+          {getDependencies(bars.map(bar => bar.task)).filter(dependency => dependency.from in rows && dependency.to in rows).map(dependency => {
+            const from = rows[dependency.from]
+            const to = rows[dependency.to]
+            const x1 = getBarX(from.bar)[1]
+            const y1 = getRowY(from.row)
+            const x2 = getBarX(to.bar)[0]
+            const y2 = getRowY(to.row)
+            return (
+              <path
+                key={`${dependency.from} ${dependency.to}`}
+                className={[
+                  'kanbn-timeline-dependency',
+                  x2 < x1 ? 'kanbn-timeline-dependency-conflict' : null
+                ].filter(i => i).join(' ')}
+                d={`M ${x1} ${y1} C ${x1 + 24} ${y1}, ${x2 - 24} ${y2}, ${x2} ${y2}`}
+                markerEnd="url(#kanbn-timeline-arrow)"
+              />
+            )
+          })}
+          {bars.map((originalBar, row) => {
+            const bar = rows[originalBar.task.id].bar
+            const [x1, x2] = getBarX(bar)
+            const y = getRowY(row) - ROW_HEIGHT / 2 + 5
+            const barHeight = ROW_HEIGHT - 10
+            return (
+              <g
+                key={bar.task.id}
+                className={[
+                  'kanbn-timeline-bar',
+                  bar.open ? 'kanbn-timeline-bar-open' : null,
+                  isCompleted(bar.task) ? 'kanbn-timeline-bar-completed' : null,
+                  !isCompleted(bar.task) && bar.task.metadata.due !== undefined && bar.end < today ? 'kanbn-task-overdue' : null,
+                  drag?.taskId === bar.task.id ? 'drag' : null
+                ].filter(i => i).join(' ')}
+              >
+                <title>{`${bar.task.name}: ${formatDate(bar.start, state.dateFormat)} - ${formatDate(bar.end, state.dateFormat)}`}</title>
+                <rect className="kanbn-timeline-bar-body" x={x1} y={y} width={x2 - x1} height={barHeight} rx={3} {...dragHandlers(originalBar, 'move')} />
+                <rect className="kanbn-timeline-bar-handle" x={x1} y={y} width={Math.min(6, dayWidth / 2)} height={barHeight} {...dragHandlers(originalBar, 'start')} />
+                <rect className="kanbn-timeline-bar-handle" x={x2 - Math.min(6, dayWidth / 2)} y={y} width={Math.min(6, dayWidth / 2)} height={barHeight} {...dragHandlers(originalBar, 'end')} />
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+    </>
+  )
+}
+
+export default Timeline
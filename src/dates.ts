@@ -0,0 +1,18 @@
+// Parse a task date. Dates without a time are stored by Kanbn as midnight UTC, which is the day before west of UTC,
+// so date-only strings and midnight UTC dates are read as midnight local time on the same calendar day instead. This
+// is used by the extension as well as the webviews, so it mustn't depend on anything else.
+export const parseDate = (value: any): Date => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00`)
+  }
+  const date = new Date(value)
+  if (
+    date.getUTCHours() === 0 &&
+    date.getUTCMinutes() === 0 &&
+    date.getUTCSeconds() === 0 &&
+    date.getUTCMilliseconds() === 0
+  ) {
+    return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  }
+  return date
+}
@@ -0,0 +1,9 @@
+export const MINUTE = 60 * 1000
+export const HOUR = 60 * MINUTE
+
+// Format a number of milliseconds as e.g. '1h 5m'. This is used by the extension as well as the webviews, so it
+// mustn't depend on anything else.
+export const formatDuration = (duration: number): string => {
+  const minutes = Math.floor(duration / MINUTE)
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+}
@@ -0,0 +1,155 @@
+import { compileFilter, FilterSyntaxError } from './filter'
+
+const task = (properties: Partial<KanbnTask> = {}, metadata: KanbnTask['metadata'] = {}): KanbnTask => ({
+  id: 'fix-login',
+  name: 'Fix login',
+  description: '',
+  column: 'Todo',
+  relations: [],
+  subTasks: [],
+  comments: [],
+  ...properties,
+  metadata
+})
+
+const matches = (filter: string, t: KanbnTask): boolean => compileFilter(filter, [])(t)
+
+const syntaxError = (filter: string): FilterSyntaxError => {
+  try {
+    compileFilter(filter, [])
+  } catch (e) {
+    if (e instanceof FilterSyntaxError) {
+      return e
+    }
+    throw e
+  }
+  throw new Error(`'${filter}' compiled without an error`)
+}
+
+describe('compileFilter', () => {
+  test('an empty filter matches every task', () => {
+    expect(matches('', task())).toBe(true)
+    expect(matches('   ', task())).toBe(true)
+  })
+
+  test('plain words match the task ID or name', () => {
+    expect(matches('login', task())).toBe(true)
+    expect(matches('LOGIN', task())).toBe(true)
+    expect(matches('logout', task())).toBe(false)
+  })
+
+  test('terms without an operator must all match', () => {
+    expect(matches('fix login', task())).toBe(true)
+    expect(matches('fix logout', task())).toBe(false)
+  })
+
+  test('AND binds tighter than OR', () => {
+    const bug = task({}, { tags: ['bug'] })
+    expect(matches('tag:feature AND tag:ui OR tag:bug', bug)).toBe(true)
+    expect(matches('tag:bug OR tag:feature AND tag:ui', bug)).toBe(true)
+    expect(matches('(tag:bug OR tag:feature) AND tag:ui', bug)).toBe(false)
+  })
+
+  test('NOT only applies to the term that follows it', () => {
+    const bug = task({}, { tags: ['bug'], assigned: 'alice' })
+    expect(matches('NOT tag:feature assigned:alice', bug)).toBe(true)
+    expect(matches('NOT tag:bug OR assigned:alice', bug)).toBe(true)
+    expect(matches('NOT (tag:bug OR assigned:alice)', bug)).toBe(false)
+    expect(matches('NOT NOT tag:bug', bug)).toBe(true)
+  })
+
+  test('quoted values can contain spaces', () => {
+    const t = task({ name: 'Fix the login page' })
+    expect(matches('"login page"', t)).toBe(true)
+    expect(matches('"page login"', t)).toBe(false)
+    expect(matches('name:"the login"', t)).toBe(true)
+  })
+
+  test('= and != compare whole values, : looks for part of a value', () => {
+    const t = task({}, { tags: ['bug', 'ui'] })
+    expect(matches('tag:u', t)).toBe(true)
+    expect(matches('tag=u', t)).toBe(false)
+    expect(matches('tag=UI', t)).toBe(true)
+    expect(matches('tag!=bug', t)).toBe(false)
+    expect(matches('tag!=feature', t)).toBe(true)
+  })
+
+  test('!= matches tasks that have no value', () => {
+    expect(matches('assigned!=alice', task())).toBe(true)
+    expect(matches('assigned:alice', task())).toBe(false)
+    expect(matches('workload!=3', task())).toBe(true)
+    expect(matches('workload<3', task())).toBe(false)
+  })
+
+  test('numbers are compared as numbers', () => {
+    const t = task({ workload: 10 })
+    expect(matches('workload>9', t)).toBe(true)
+    expect(matches('workload>=10', t)).toBe(true)
+    expect(matches('workload<9', t)).toBe(false)
+  })
+
+  test('custom fields can be filtered by their type', () => {
+    const customFields = [{ name: 'Estimate', type: 'number' as const }, { name: 'Urgent', type: 'boolean' as const }]
+    const t = task({}, { Estimate: 5, Urgent: true } as any)
+    expect(compileFilter('estimate>4 urgent', customFields)(t)).toBe(true)
+    expect(compileFilter('estimate>5', customFields)(t)).toBe(false)
+    expect(compileFilter('urgent=false', customFields)(t)).toBe(false)
+  })
+
+  describe('syntax errors', () => {
+    test('report the position of the problem', () => {
+      expect(syntaxError('tag:bug AND')).toMatchObject({ message: 'Unexpected end of filter', position: 11 })
+      expect(syntaxError('tag:bug )')).toMatchObject({ message: "Unexpected ')'", position: 8 })
+      expect(syntaxError('(tag:bug OR tag:ui')).toMatchObject({ message: "Missing ')'", position: 0 })
+      expect(syntaxError('name:"login')).toMatchObject({ message: 'Unterminated quoted string', position: 5 })
+      expect(syntaxError('bug tag:')).toMatchObject({ message: "Missing value after 'tag:'", position: 4 })
+    })
+
+    test('report unknown properties and values of the wrong type', () => {
+      expect(syntaxError('colour:red')).toMatchObject({ message: "Unknown property 'colour'", position: 0 })
+      expect(syntaxError('bug workload>lots')).toMatchObject({ message: "'lots' is not a number", position: 4 })
+      expect(syntaxError('due<soon')).toMatchObject({ message: "'soon' is not a date", position: 0 })
+      expect(syntaxError('tag<bug')).toMatchObject({ position: 0 })
+    })
+  })
+
+  describe('dates', () => {
+    // Dates without a time are sent to the webview as midnight UTC
+    const dueOn20th = task({}, { due: '2026-10-20T00:00:00.000Z' })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    test('date-only values fall on the same day in every timezone', () => {
+      expect(matches('due=2026-10-20', dueOn20th)).toBe(true)
+      expect(matches('due>=2026-10-20', dueOn20th)).toBe(true)
+      expect(matches('due<2026-10-20', dueOn20th)).toBe(false)
+      expect(matches('due>2026-10-19', dueOn20th)).toBe(true)
+      expect(matches('due<2026-10-21', dueOn20th)).toBe(true)
+      expect(matches('due:2026-10', dueOn20th)).toBe(true)
+      expect(matches('due:2026-10-19', dueOn20th)).toBe(false)
+    })
+
+    test('dates with a time are compared by their local day', () => {
+      const justBeforeMidnight = task({}, { due: new Date(2026, 9, 20, 23, 59).toISOString() })
+      const justAfterMidnight = task({}, { due: new Date(2026, 9, 21, 0, 1).toISOString() })
+      expect(matches('due=2026-10-20', justBeforeMidnight)).toBe(true)
+      expect(matches('due=2026-10-20', justAfterMidnight)).toBe(false)
+      expect(matches('due>2026-10-20', justAfterMidnight)).toBe(true)
+    })
+
+    test('today is the local day', () => {
+      jest.useFakeTimers().setSystemTime(new Date(2026, 9, 20, 23, 59))
+      expect(matches('due=today', dueOn20th)).toBe(true)
+      jest.setSystemTime(new Date(2026, 9, 21, 0, 1))
+      expect(matches('due=today', dueOn20th)).toBe(false)
+      expect(matches('due<today', dueOn20th)).toBe(true)
+    })
+
+    test('tasks without the date only match !=', () => {
+      expect(matches('started<today', dueOn20th)).toBe(false)
+      expect(matches('started!=today', dueOn20th)).toBe(true)
+    })
+  })
+})
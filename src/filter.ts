@@ -0,0 +1,353 @@
+// A small query language for filtering tasks on the board, e.g.
+//   tag:bug OR tag:regression
+//   NOT assigned:alice AND (due<2026-11-01 OR overdue)
+//   "login page" workload>=3
+
+import { getTimeLogged } from './timeLog'
+import { parseDate } from './dates'
+
+type CustomFields = Array<{ name: string, type: 'boolean' | 'date' | 'number' | 'string' }>
+type FieldType = 'boolean' | 'date' | 'number' | 'string'
+type Operator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>='
+
+interface Token {
+  type: 'and' | 'or' | 'not' | 'open' | 'close' | 'term'
+  text: string
+  position: number
+}
+
+export type FilterNode =
+  | { type: 'and' | 'or', left: FilterNode, right: FilterNode }
+  | { type: 'not', operand: FilterNode }
+  | { type: 'term', field: string | null, operator: Operator, value: string, position: number }
+
+interface Field {
+  type: FieldType
+  get: (task: KanbnTask) => any
+}
+
+export class FilterSyntaxError extends Error {
+  constructor (message: string, public readonly position: number) {
+    super(message)
+    this.name = 'FilterSyntaxError'
+  }
+}
+
+const operators: Operator[] = ['<=', '>=', '!=', ':', '=', '<', '>']
+
+// Built-in task properties that can be filtered, keyed by (lower-case) property name
+const builtInFields: Record<string, Field> = {
+  id: { type: 'string', get: task => task.id },
+  name: { type: 'string', get: task => task.name },
+  description: {
+    type: 'string',
+    get: task => [task.description, ...task.subTasks.map(subTask => subTask.text)].join(' ')
+  },
+  column: { type: 'string', get: task => task.column },
+  assigned: { type: 'string', get: task => task.metadata.assigned },
+  tag: { type: 'string', get: task => task.metadata.tags ?? [] },
+  relation: { type: 'string', get: task => task.relations.map(relation => `${relation.type} ${relation.task}`) },
+  subtask: { type: 'string', get: task => task.subTasks.map(subTask => subTask.text) },
+  comment: { type: 'string', get: task => task.comments.map(comment => `${comment.author} ${comment.text}`) },
+  created: { type: 'date', get: task => task.metadata.created },
+  updated: { type: 'date', get: task => task.metadata.updated },
+  started: { type: 'date', get: task => task.metadata.started },
+  due: { type: 'date', get: task => task.metadata.due },
+  completed: { type: 'date', get: task => task.metadata.completed },
+  workload: { type: 'number', get: task => task.workload },
+  remaining: { type: 'number', get: task => task.remainingWorkload },
+  progress: { type: 'number', get: task => task.progress },
+  time: { type: 'number', get: task => getTimeLogged(task) }
+}
+
+// Split a filter string into tokens
+const tokenize = (filter: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  // Read a double-quoted string starting at the current position
+  const readQuoted = (): string => {
+    const start = i
+    let text = ''
+    i++
+    while (i < filter.length && filter[i] !== '"') {
+      if (filter[i] === '\\' && i + 1 < filter.length) {
+        i++
+      }
+      text += filter[i]
+      i++
+    }
+    if (i >= filter.length) {
+      throw new FilterSyntaxError('Unterminated quoted string', start)
+    }
+    i++
+    return text
+  }
+
+  while (i < filter.length) {
+    const c = filter[i]
+    if (/\s/.test(c)) {
+      i++
+      continue
+    }
+    if (c === '(' || c === ')') {
+      tokens.push({ type: c === '(' ? 'open' : 'close', text: c, position: i })
+      i++
+      continue
+    }
+    const position = i
+    if (c === '"') {
+      tokens.push({ type: 'term', text: `"${readQuoted()}"`, position })
+      continue
+    }
+    let text = ''
+    while (i < filter.length && !/[\s()"]/.test(filter[i])) {
+      text += filter[i]
+      i++
+    }
+
+    // Allow quoted values after a property name and operator, e.g. name:"some task"
+    if (i < filter.length && filter[i] === '"' && /(:|=|<|>)$/.test(text)) {
+      text += `"${readQuoted()}"`
+    }
+    if (text === 'AND' || text === 'OR' || text === 'NOT') {
+      tokens.push({ type: text.toLowerCase() as Token['type'], text, position })
+    } else {
+      tokens.push({ type: 'term', text, position })
+    }
+  }
+  return tokens
+}
+
+// Split a term into a property name, operator and value
+const parseTerm = (token: Token): FilterNode => {
+  const unquote = (value: string): string => value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
+  if (token.text.startsWith('"')) {
+    return { type: 'term', field: null, operator: ':', value: unquote(token.text), position: token.position }
+  }
+  for (let i = 1; i < token.text.length; i++) {
+    const operator = operators.find(o => token.text.startsWith(o, i))
+    if (operator !== undefined) {
+      const value = unquote(token.text.slice(i + operator.length))
+      if (value === '') {
+        throw new FilterSyntaxError(`Missing value after '${token.text}'`, token.position)
+      }
+      return {
+        type: 'term',
+        field: token.text.slice(0, i).toLowerCase(),
+        operator,
+        value,
+        position: token.position
+      }
+    }
+  }
+  return { type: 'term', field: null, operator: ':', value: token.text, position: token.position }
+}
+
+// Build a syntax tree from a list of tokens. NOT binds tighter than AND, and AND binds tighter than OR. Terms
+// that follow each other without an operator are combined with AND.
+const parse = (tokens: Token[], length: number): FilterNode => {
+  let i = 0
+  const peek = (): Token | undefined => tokens[i]
+
+  const parseOr = (): FilterNode => {
+    let left = parseAnd()
+    while (peek()?.type === 'or') {
+      i++
+      left = { type: 'or', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  const parseAnd = (): FilterNode => {
+    let left = parseUnary()
+    for (let token = peek(); token !== undefined && token.type !== 'or' && token.type !== 'close'; token = peek()) {
+      if (token.type === 'and') {
+        i++
+      }
+      left = { type: 'and', left, right: parseUnary() }
+    }
+    return left
+  }
+
+  const parseUnary = (): FilterNode => {
+    const token = peek()
+    if (token === undefined) {
+      throw new FilterSyntaxError('Unexpected end of filter', length)
+    }
+    i++
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', operand: parseUnary() }
+      case 'open': {
+        const node = parseOr()
+        if (peek()?.type !== 'close') {
+          throw new FilterSyntaxError("Missing ')'", token.position)
+        }
+        i++
+        return node
+      }
+      case 'term':
+        return parseTerm(token)
+      default:
+        throw new FilterSyntaxError(`Unexpected '${token.text}'`, token.position)
+    }
+  }
+
+  const node = parseOr()
+  const token = peek()
+  if (token !== undefined) {
+    throw new FilterSyntaxError(`Unexpected '${token.text}'`, token.position)
+  }
+  return node
+}
+
+// Get the local calendar day of a date as a comparable number
+const dayNumber = (date: Date): number => date.getFullYear() * 10000 + date.getMonth() * 100 + date.getDate()
+
+// Get the local calendar day of a date as YYYY-MM-DD
+const formatDay = (date: Date): string => [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+  .map(n => `${n}`.padStart(2, '0'))
+  .join('-')
+
+const parseDateValue = (value: string): Date | null => {
+  if (value.toLowerCase() === 'today' || value.toLowerCase() === 'now') {
+    return new Date()
+  }
+  const date = parseDate(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Check that each term refers to a known property and that its value can be compared with the property's type
+const validate = (node: FilterNode, fields: Record<string, Field>): void => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      validate(node.left, fields)
+      validate(node.right, fields)
+      return
+    case 'not':
+      validate(node.operand, fields)
+      return
+  }
+  if (node.field === null) {
+    return
+  }
+  const field = fields[node.field]
+  if (field === undefined) {
+    throw new FilterSyntaxError(`Unknown property '${node.field}'`, node.position)
+  }
+  if (['<', '<=', '>', '>='].includes(node.operator) && (field.type === 'string' || field.type === 'boolean')) {
+    throw new FilterSyntaxError(`Property '${node.field}' can't be compared using '${node.operator}'`, node.position)
+  }
+  if (field.type === 'number' && node.operator !== ':' && isNaN(Number(node.value))) {
+    throw new FilterSyntaxError(`'${node.value}' is not a number`, node.position)
+  }
+  if (field.type === 'date' && node.operator !== ':' && parseDateValue(node.value) === null) {
+    throw new FilterSyntaxError(`'${node.value}' is not a date`, node.position)
+  }
+}
+
+const compare = (a: number, b: number, operator: Operator): boolean => {
+  switch (operator) {
+    case '<': return a < b
+    case '<=': return a <= b
+    case '>': return a > b
+    case '>=': return a >= b
+    case '!=': return a !== b
+    default: return a === b
+  }
+}
+
+// Check a single property value against a term
+const matchValue = (field: Field, value: any, operator: Operator, search: string): boolean => {
+  if (field.type === 'boolean') {
+    const expected = search.toLowerCase() === 'true'
+    return compare(Number(value === true || value === 'true'), Number(expected), operator === ':' ? '=' : operator)
+  }
+  const missing = value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+  if (missing) {
+    return operator === '!='
+  }
+  switch (field.type) {
+    case 'number':
+      if (operator === ':') {
+        return `${value as string}`.includes(search)
+      }
+      return !isNaN(Number(value)) && compare(Number(value), Number(search), operator)
+    case 'date': {
+      const date = parseDate(value)
+      if (isNaN(date.getTime())) {
+        return false
+      }
+      if (operator === ':') {
+        return formatDay(date).includes(search)
+      }
+      return compare(dayNumber(date), dayNumber(parseDateValue(search) as Date), operator)
+    }
+    default: {
+      const values: string[] = (Array.isArray(value) ? value : [value]).map(v => `${v as string}`.toLowerCase())
+      const needle = search.toLowerCase()
+      switch (operator) {
+        case '=': return values.includes(needle)
+        case '!=': return !values.includes(needle)
+        default: return values.some(v => v.includes(needle))
+      }
+    }
+  }
+}
+
+// Check if a task's due date is in the past
+const checkOverdue = (task: KanbnTask): boolean => {
+  if (task.metadata.due !== undefined) {
+    return Date.parse(task.metadata.due) < (new Date()).getTime()
+  }
+  return false
+}
+
+const evaluate = (node: FilterNode, task: KanbnTask, fields: Record<string, Field>): boolean => {
+  switch (node.type) {
+    case 'and':
+      return evaluate(node.left, task, fields) && evaluate(node.right, task, fields)
+    case 'or':
+      return evaluate(node.left, task, fields) || evaluate(node.right, task, fields)
+    case 'not':
+      return !evaluate(node.operand, task, fields)
+  }
+  if (node.field !== null) {
+    return matchValue(fields[node.field], fields[node.field].get(task), node.operator, node.value)
+  }
+  const search = node.value.toLowerCase()
+
+  // Filter for overdue tasks
+  if (search === 'overdue') {
+    return checkOverdue(task)
+  }
+
+  // Filter boolean custom fields
+  if (search in fields && fields[search].type === 'boolean') {
+    return fields[search].get(task) === true
+  }
+
+  // Filter task id or name
+  return task.id.toLowerCase().includes(search) || task.name.toLowerCase().includes(search)
+}
+
+// Compile a filter string into a function that tests whether a task matches the filter. Throws a
+// FilterSyntaxError if the filter string is invalid.
+export const compileFilter = (filter: string, customFields: CustomFields): ((task: KanbnTask) => boolean) => {
+  const tokens = tokenize(filter)
+  if (tokens.length === 0) {
+    return () => true
+  }
+  const fields: Record<string, Field> = { ...builtInFields }
+  for (const customField of customFields) {
+    fields[customField.name.toLowerCase()] = {
+      type: customField.type,
+      get: task => task.metadata[customField.name]
+    }
+  }
+  const node = parse(tokens, filter.length)
+  validate(node, fields)
+  return task => evaluate(node, task, fields)
+}
@@ -1,6 +1,10 @@
 import * as React from 'react'
 import Board from './Board'
 import Burndown from './Burndown'
+import Calendar from './Calendar'
+import Timeline from './Timeline'
+import Metrics from './Metrics'
+import Graph from './Graph'
 import TaskEditor from './TaskEditor'
 import './index.css'
 
@@ -20,6 +24,30 @@ if (domNodeBoard !== null) {
     if (domNodeTask !== null) {
       const rootTask = createRoot(domNodeTask)
       rootTask.render(<TaskEditor />)
+    } else {
+      const domNodeCalendar = document.getElementById('root-calendar')
+      if (domNodeCalendar !== null) {
+        const rootCalendar = createRoot(domNodeCalendar)
+        rootCalendar.render(<Calendar />)
+      } else {
+        const domNodeTimeline = document.getElementById('root-timeline')
+        if (domNodeTimeline !== null) {
+          const rootTimeline = createRoot(domNodeTimeline)
+          rootTimeline.render(<Timeline />)
+        } else {
+          const domNodeMetrics = document.getElementById('root-metrics')
+          if (domNodeMetrics !== null) {
+            const rootMetrics = createRoot(domNodeMetrics)
+            rootMetrics.render(<Metrics />)
+          } else {
+            const domNodeGraph = document.getElementById('root-graph')
+            if (domNodeGraph !== null) {
+              const rootGraph = createRoot(domNodeGraph)
+              rootGraph.render(<Graph />)
+            }
+          }
+        }
+      }
     }
   }
 }
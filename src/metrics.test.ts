@@ -0,0 +1,109 @@
+import { getTaskMetrics, percentile, getThroughput, getSprintRange } from './metrics'
+
+// Midday local time on a day in October 2026, so that the tests don't depend on the timezone
+const october = (day: number, hour = 12): string => new Date(2026, 9, day, hour).toISOString()
+
+const task = (id: string, metadata: KanbnTask['metadata'] = {}): KanbnTask => ({
+  id,
+  name: id,
+  description: '',
+  column: 'Done',
+  relations: [],
+  subTasks: [],
+  comments: [],
+  metadata
+})
+
+describe('getTaskMetrics', () => {
+  test('measures lead and cycle time in days', () => {
+    const [metrics] = getTaskMetrics([
+      task('a', { created: october(1), started: october(3), completed: october(5, 0) })
+    ])
+    expect(metrics.completed).toEqual(new Date(october(5, 0)))
+    expect(metrics.leadTime).toBeCloseTo(3.5)
+    expect(metrics.cycleTime).toBeCloseTo(1.5)
+  })
+
+  test('leaves out tasks that haven\'t been completed', () => {
+    expect(getTaskMetrics([task('a', { created: october(1) }), task('b', { completed: 'never' })])).toEqual([])
+  })
+
+  test('has no cycle time for tasks that were never started', () => {
+    const [metrics] = getTaskMetrics([task('a', { created: october(1), completed: october(2) })])
+    expect(metrics.leadTime).toBeCloseTo(1)
+    expect(metrics.cycleTime).toBeNull()
+  })
+
+  test('ignores start dates after the completed date', () => {
+    const [metrics] = getTaskMetrics([task('a', { started: october(3), completed: october(2) })])
+    expect(metrics.leadTime).toBeNull()
+    expect(metrics.cycleTime).toBeNull()
+  })
+})
+
+describe('percentile', () => {
+  test('uses the nearest rank', () => {
+    const values = [15, 20, 35, 40, 50]
+    expect(percentile(values, 30)).toBe(20)
+    expect(percentile(values, 40)).toBe(20)
+    expect(percentile(values, 50)).toBe(35)
+    expect(percentile(values, 100)).toBe(50)
+    expect(percentile(values, 0)).toBe(15)
+  })
+
+  test('doesn\'t depend on the order of the values', () => {
+    expect(percentile([3, 1, 2], 50)).toBe(2)
+  })
+
+  test('is null when there are no values', () => {
+    expect(percentile([], 50)).toBeNull()
+  })
+})
+
+describe('getThroughput', () => {
+  test('counts tasks by the week they were completed in, with weeks starting on Monday', () => {
+    // 5 October 2026 is a Monday
+    const throughput = getThroughput(getTaskMetrics([
+      task('a', { completed: october(5, 0) }),
+      task('b', { completed: october(11, 23) }),
+      task('c', { completed: october(12) }),
+      task('d', { completed: october(28) })
+    ]))
+    expect(throughput).toEqual([
+      { week: new Date(2026, 9, 5), count: 2 },
+      { week: new Date(2026, 9, 12), count: 1 },
+      { week: new Date(2026, 9, 19), count: 0 },
+      { week: new Date(2026, 9, 26), count: 1 }
+    ])
+  })
+
+  test('is empty when no tasks have been completed', () => {
+    expect(getThroughput([])).toEqual([])
+  })
+})
+
+describe('getSprintRange', () => {
+  const sprints: KanbnSprint[] = [
+    { name: 'One', start: october(1), closed: october(10) },
+    { name: 'Two', start: october(12) },
+    { name: 'Three', start: october(26) }
+  ]
+
+  test('ends when the sprint is closed', () => {
+    expect(getSprintRange(sprints, 'One')).toEqual({ from: new Date(october(1)), to: new Date(october(10)) })
+  })
+
+  test('ends when the next sprint starts if it wasn\'t closed', () => {
+    expect(getSprintRange(sprints, 'Two')).toEqual({ from: new Date(october(12)), to: new Date(october(26)) })
+  })
+
+  test('lasts until now for the latest sprint', () => {
+    jest.useFakeTimers().setSystemTime(new Date(october(30)))
+    expect(getSprintRange(sprints, 'Three')).toEqual({ from: new Date(october(26)), to: new Date(october(30)) })
+    jest.useRealTimers()
+  })
+
+  test('is null for sprints that don\'t exist', () => {
+    expect(getSprintRange(sprints, 'Four')).toBeNull()
+  })
+})
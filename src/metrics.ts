@@ -0,0 +1,88 @@
+const DAY = 24 * 60 * 60 * 1000
+
+// Flow metrics for a completed task, with times measured in days
+export interface TaskMetrics {
+  task: KanbnTask
+  completed: Date
+  // Time from the task being created to it being completed
+  leadTime: number | null
+  // Time from the task being started to it being completed
+  cycleTime: number | null
+}
+
+export interface Throughput {
+  week: Date
+  count: number
+}
+
+const parseDate = (date: string | undefined): Date | null => {
+  if (date === undefined || isNaN(Date.parse(date))) {
+    return null
+  }
+  return new Date(date)
+}
+
+const getDays = (from: Date | null, to: Date): number | null => {
+  if (from === null || from > to) {
+    return null
+  }
+  return (to.getTime() - from.getTime()) / DAY
+}
+
+// Get the start of the week (Monday) that a date is in
+const getWeek = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7)
+
+// Get flow metrics for each task that has a completed date
+export const getTaskMetrics = (tasks: KanbnTask[]): TaskMetrics[] => tasks.flatMap(task => {
+  const completed = parseDate(task.metadata.completed)
+  if (completed === null) {
+    return []
+  }
+  return [{
+    task,
+    completed,
+    leadTime: getDays(parseDate(task.metadata.created), completed),
+    cycleTime: getDays(parseDate(task.metadata.started), completed)
+  }]
+})
+
+// Get a percentile (0-100) of a list of values using the nearest-rank method, or null if there are no values
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) {
+    return null
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)]
+}
+
+// Count the number of tasks completed in each week. Weeks start on a Monday, and weeks in between with no completed
+// tasks are included with a count of 0.
+export const getThroughput = (taskMetrics: TaskMetrics[]): Throughput[] => {
+  if (taskMetrics.length === 0) {
+    return []
+  }
+  const counts = new Map<number, number>()
+  for (const { completed } of taskMetrics) {
+    const week = getWeek(completed).getTime()
+    counts.set(week, (counts.get(week) ?? 0) + 1)
+  }
+  const first = new Date(Math.min(...counts.keys()))
+  const last = new Date(Math.max(...counts.keys()))
+  const weekCount = Math.round((last.getTime() - first.getTime()) / (7 * DAY)) + 1
+  return Array.from({ length: weekCount }, (_, i) => {
+    const week = new Date(first.getFullYear(), first.getMonth(), first.getDate() + i * 7)
+    return { week, count: counts.get(week.getTime()) ?? 0 }
+  })
+}
+
+// Get the date range of a sprint. A sprint lasts until it is closed or until the next sprint starts.
+export const getSprintRange = (sprints: KanbnSprint[], sprintName: string): { from: Date, to: Date } | null => {
+  const position = sprints.findIndex(sprint => sprint.name === sprintName)
+  if (position === -1) {
+    return null
+  }
+  return {
+    from: new Date(sprints[position].start),
+    to: new Date(sprints[position].closed ?? sprints[position + 1]?.start ?? Date.now())
+  }
+}
@@ -0,0 +1,84 @@
+import { getDependencyDirection, getDependencies, getBlockedTasks } from './relations'
+
+const task = (id: string, relations: Array<[string, string]> = [], column = 'Todo', completed?: string): KanbnTask => ({
+  id,
+  name: id,
+  description: '',
+  column,
+  relations: relations.map(([type, task]) => ({ type, task })),
+  subTasks: [],
+  comments: [],
+  metadata: completed !== undefined ? { completed } : {}
+})
+
+describe('getDependencyDirection', () => {
+  test('recognises both directions', () => {
+    expect(getDependencyDirection('blocks')).toBe('blocks')
+    expect(getDependencyDirection('required by')).toBe('blocks')
+    expect(getDependencyDirection('blocked by')).toBe('blocked-by')
+    expect(getDependencyDirection('depends on')).toBe('blocked-by')
+  })
+
+  test('ignores case, spacing, hyphens and underscores', () => {
+    expect(getDependencyDirection('  Blocked-By ')).toBe('blocked-by')
+    expect(getDependencyDirection('depends_on')).toBe('blocked-by')
+    expect(getDependencyDirection('PREREQUISITE   FOR')).toBe('blocks')
+  })
+
+  test('is null for relations that aren\'t dependencies', () => {
+    expect(getDependencyDirection('')).toBeNull()
+    expect(getDependencyDirection('duplicates')).toBeNull()
+    expect(getDependencyDirection('blocks maybe')).toBeNull()
+  })
+})
+
+describe('getDependencies', () => {
+  test('returns a dependency written on either task once', () => {
+    const tasks = [task('a', [['blocks', 'b']]), task('b', [['blocked by', 'a']])]
+    expect(getDependencies(tasks)).toEqual([{ from: 'a', to: 'b' }])
+  })
+
+  test('ignores other relations and relations to the task itself', () => {
+    const tasks = [task('a', [['duplicates', 'b'], ['blocks', 'a'], ['depends on', 'c']])]
+    expect(getDependencies(tasks)).toEqual([{ from: 'c', to: 'a' }])
+  })
+
+  test('keeps both directions of a cycle', () => {
+    const tasks = [task('a', [['blocks', 'b']]), task('b', [['blocks', 'a']])]
+    expect(getDependencies(tasks)).toEqual([{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }])
+  })
+})
+
+describe('getBlockedTasks', () => {
+  test('lists every incomplete task blocking a task', () => {
+    const tasks = [
+      task('a', [['blocked by', 'b'], ['blocked by', 'c']]),
+      task('b'),
+      task('c')
+    ]
+    expect(getBlockedTasks(tasks, [])).toEqual({ a: ['b', 'c'] })
+  })
+
+  test('ignores blocking tasks that are completed or in a completed column', () => {
+    const tasks = [
+      task('a', [['blocked by', 'b'], ['blocked by', 'c']]),
+      task('b', [], 'Done'),
+      task('c', [], 'Todo', '2026-10-20T00:00:00.000Z')
+    ]
+    expect(getBlockedTasks(tasks, ['Done'])).toEqual({})
+  })
+
+  test('ignores blocking tasks that aren\'t in the list', () => {
+    expect(getBlockedTasks([task('a', [['blocked by', 'archived']])], [])).toEqual({})
+  })
+
+  test('completed tasks can still be blocked', () => {
+    const tasks = [task('a', [['blocked by', 'b']], 'Done'), task('b')]
+    expect(getBlockedTasks(tasks, ['Done'])).toEqual({ a: ['b'] })
+  })
+
+  test('tasks in a cycle block each other', () => {
+    const tasks = [task('a', [['blocks', 'b']]), task('b', [['blocks', 'c']]), task('c', [['blocks', 'a']])]
+    expect(getBlockedTasks(tasks, [])).toEqual({ a: ['c'], b: ['a'], c: ['b'] })
+  })
+})
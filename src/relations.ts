@@ -0,0 +1,59 @@
+// A dependency between two tasks, where the 'from' task needs to be finished before the 'to' task
+export interface Dependency {
+  from: string
+  to: string
+}
+
+// Relation types that mean the task blocks the related task, or that the task is blocked by the related task
+const blocksTypes = ['blocks', 'blocking', 'prerequisite for', 'required by', 'needed by', 'precedes', 'before']
+const blockedByTypes = ['blocked by', 'depends on', 'dependent on', 'requires', 'needs', 'waits for', 'follows', 'after']
+
+const normaliseType = (type: string): string => type.trim().toLowerCase().replace(/[-_\s]+/g, ' ')
+
+// Check if a relation type looks like a dependency. Returns the direction of the dependency, or null if the
+// relation isn't a dependency.
+export const getDependencyDirection = (type: string): 'blocks' | 'blocked-by' | null => {
+  const normalisedType = normaliseType(type)
+  if (blocksTypes.includes(normalisedType)) {
+    return 'blocks'
+  }
+  if (blockedByTypes.includes(normalisedType)) {
+    return 'blocked-by'
+  }
+  return null
+}
+
+// Get all dependencies between a list of tasks. A dependency can be written on either task, e.g. 'a blocks b' or
+// 'b blocked by a', so each dependency is only returned once.
+export const getDependencies = (tasks: KanbnTask[]): Dependency[] => {
+  const dependencies = new Map<string, Dependency>()
+  for (const task of tasks) {
+    for (const relation of task.relations) {
+      const direction = getDependencyDirection(relation.type)
+      if (direction === null || relation.task === task.id) {
+        continue
+      }
+      const dependency = direction === 'blocks'
+        ? { from: task.id, to: relation.task }
+        : { from: relation.task, to: task.id }
+      dependencies.set(JSON.stringify(dependency), dependency)
+    }
+  }
+  return [...dependencies.values()]
+}
+
+// Get the tasks that are blocked by at least one incomplete task, mapped to the IDs of the tasks blocking them. Tasks
+// that aren't in the list (for example archived tasks) don't block anything.
+export const getBlockedTasks = (tasks: KanbnTask[], completedColumns: string[]): Record<string, string[]> => {
+  const incompleteTaskIds = new Set(tasks
+    .filter(task => task.metadata.completed === undefined && !completedColumns.includes(task.column))
+    .map(task => task.id)
+  )
+  const blockedTasks: Record<string, string[]> = {}
+  for (const dependency of getDependencies(tasks)) {
+    if (incompleteTaskIds.has(dependency.from)) {
+      blockedTasks[dependency.to] = [...(blockedTasks[dependency.to] ?? []), dependency.from]
+    }
+  }
+  return blockedTasks
+}
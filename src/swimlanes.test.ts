@@ -0,0 +1,103 @@
+import { getTaskLanes, getLanes, getLaneLabel, moveTaskToLane, getLaneDroppableId, parseLaneDroppableId } from './swimlanes'
+
+const customFields = [
+  { name: 'Estimate', type: 'number' as const },
+  { name: 'Urgent', type: 'boolean' as const },
+  { name: 'Release', type: 'date' as const }
+]
+
+const task = (metadata: KanbnTask['metadata'] = {}): KanbnTask => ({
+  id: 'fix-login',
+  name: 'Fix login',
+  description: '',
+  column: 'Todo',
+  relations: [],
+  subTasks: [],
+  comments: [],
+  metadata
+})
+
+describe('getTaskLanes', () => {
+  test('puts a task in the lane for its assigned user', () => {
+    expect(getTaskLanes(task({ assigned: 'alice' }), 'assigned', customFields)).toEqual(['alice'])
+    expect(getTaskLanes(task(), 'assigned', customFields)).toEqual([''])
+  })
+
+  test('puts a task with several tags in the lane for each tag', () => {
+    expect(getTaskLanes(task({ tags: ['bug', 'ui'] }), 'tag', customFields)).toEqual(['bug', 'ui'])
+    expect(getTaskLanes(task({ tags: [] }), 'tag', customFields)).toEqual([''])
+    expect(getTaskLanes(task(), 'tag', customFields)).toEqual([''])
+  })
+
+  test('uses the value of a custom field', () => {
+    expect(getTaskLanes(task({ Estimate: 3 } as any), 'Estimate', customFields)).toEqual(['3'])
+    expect(getTaskLanes(task({ Estimate: null } as any), 'Estimate', customFields)).toEqual([''])
+    expect(getTaskLanes(task({ Estimate: '' } as any), 'Estimate', customFields)).toEqual([''])
+  })
+
+  test('only puts tasks with a true boolean field in its lane', () => {
+    expect(getTaskLanes(task({ Urgent: true } as any), 'Urgent', customFields)).toEqual(['true'])
+    expect(getTaskLanes(task({ Urgent: false } as any), 'Urgent', customFields)).toEqual([''])
+  })
+
+  test('puts every task in the empty lane for fields that aren\'t custom fields', () => {
+    expect(getTaskLanes(task({ Colour: 'red' } as any), 'Colour', customFields)).toEqual([''])
+  })
+})
+
+describe('getLanes', () => {
+  test('sorts the lanes and puts the empty lane last', () => {
+    const tasks = [task({ tags: ['ui'] }), task(), task({ tags: ['bug', 'ui'] })]
+    expect(getLanes(tasks, 'tag', customFields)).toEqual(['bug', 'ui', ''])
+  })
+
+  test('always has an empty lane', () => {
+    expect(getLanes([task({ assigned: 'alice' })], 'assigned', customFields)).toEqual(['alice', ''])
+    expect(getLanes([], 'assigned', customFields)).toEqual([''])
+  })
+})
+
+describe('getLaneLabel', () => {
+  test('names the empty lane after the field', () => {
+    expect(getLaneLabel('', 'assigned', customFields, 'd mmm yyyy')).toBe('Unassigned')
+    expect(getLaneLabel('', 'tag', customFields, 'd mmm yyyy')).toBe('No tags')
+    expect(getLaneLabel('', 'Estimate', customFields, 'd mmm yyyy')).toBe('No Estimate')
+    expect(getLaneLabel('', 'Urgent', customFields, 'd mmm yyyy')).toBe('Not Urgent')
+  })
+
+  test('names the lanes for boolean and date fields', () => {
+    expect(getLaneLabel('true', 'Urgent', customFields, 'd mmm yyyy')).toBe('Urgent')
+    expect(getLaneLabel('2026-10-20T12:00:00', 'Release', customFields, 'd mmm yyyy')).toBe('20 Oct 2026')
+    expect(getLaneLabel('alice', 'assigned', customFields, 'd mmm yyyy')).toBe('alice')
+  })
+})
+
+describe('moveTaskToLane', () => {
+  test('swaps the tag for the lane the task was dragged from', () => {
+    const moved = moveTaskToLane(task({ tags: ['bug', 'ui'] }), 'tag', 'bug', 'feature', customFields)
+    expect(moved.metadata.tags).toEqual(['ui', 'feature'])
+  })
+
+  test('removes the tag when a task is dragged to the empty lane', () => {
+    expect(moveTaskToLane(task({ tags: ['bug'] }), 'tag', 'bug', '', customFields).metadata.tags).toEqual([])
+  })
+
+  test('sets or removes the field', () => {
+    expect(moveTaskToLane(task(), 'assigned', '', 'bob', customFields).metadata.assigned).toBe('bob')
+    expect(moveTaskToLane(task({ assigned: 'bob' }), 'assigned', 'bob', '', customFields).metadata).not.toHaveProperty('assigned')
+    expect((moveTaskToLane(task(), 'Urgent', '', 'true', customFields).metadata as any).Urgent).toBe(true)
+  })
+
+  test('doesn\'t change the original task', () => {
+    const original = task({ tags: ['bug'] })
+    moveTaskToLane(original, 'tag', 'bug', 'ui', customFields)
+    expect(original.metadata.tags).toEqual(['bug'])
+  })
+})
+
+describe('lane droppable IDs', () => {
+  test('keep the lane and column name, even if they contain separators', () => {
+    const droppableId = getLaneDroppableId('a, "b"', 'In progress')
+    expect(parseLaneDroppableId(droppableId)).toEqual(['a, "b"', 'In progress'])
+  })
+})
@@ -0,0 +1,75 @@
+import formatDate from 'dateformat'
+
+type CustomFields = Array<{ name: string, type: 'boolean' | 'date' | 'number' | 'string' }>
+
+// Get the swimlanes that a task belongs to when the board is grouped by a field. A task with several tags will
+// appear in the lane for each tag, and a task with no value for the field will appear in the '' lane.
+export const getTaskLanes = (task: KanbnTask, field: string, customFields: CustomFields): string[] => {
+  if (field === 'assigned') {
+    return [task.metadata.assigned ?? '']
+  }
+  if (field === 'tag') {
+    const tags = task.metadata.tags ?? []
+    return tags.length > 0 ? tags : ['']
+  }
+  const customField = customFields.find(customField => customField.name === field)
+  const value = task.metadata[field]
+  if (customField === undefined || value === undefined || value === null || value === '') {
+    return ['']
+  }
+  if (customField.type === 'boolean') {
+    return [value === true ? 'true' : '']
+  }
+  return [`${value as string}`]
+}
+
+// Get all swimlanes for a list of tasks, with the lane for tasks that have no value last
+export const getLanes = (tasks: KanbnTask[], field: string, customFields: CustomFields): string[] => {
+  const lanes = new Set<string>()
+  for (const task of tasks) {
+    getTaskLanes(task, field, customFields).forEach(lane => lanes.add(lane))
+  }
+  const sortedLanes = [...lanes].filter(lane => lane !== '').sort((a, b) => a.localeCompare(b))
+  return [...sortedLanes, '']
+}
+
+export const getLaneLabel = (lane: string, field: string, customFields: CustomFields, dateFormat: string): string => {
+  const customField = customFields.find(customField => customField.name === field)
+  if (lane === '') {
+    switch (field) {
+      case 'assigned':
+        return 'Unassigned'
+      case 'tag':
+        return 'No tags'
+      default:
+        return customField?.type === 'boolean' ? `Not ${field}` : `No ${field}`
+    }
+  }
+  if (customField?.type === 'boolean') {
+    return field
+  }
+  if (customField?.type === 'date') {
+    return formatDate(lane, dateFormat)
+  }
+  return lane
+}
+
+// Update a task's grouping field so that it appears in a different swimlane
+export const moveTaskToLane = (task: KanbnTask, field: string, fromLane: string, toLane: string, customFields: CustomFields): KanbnTask => {
+  const metadata = { ...task.metadata }
+  if (field === 'tag') {
+    metadata.tags = [...(metadata.tags ?? []).filter(tag => tag !== fromLane), ...(toLane !== '' ? [toLane] : [])]
+  } else if (toLane === '') {
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete metadata[field]
+  } else {
+    const customField = customFields.find(customField => customField.name === field)
+    metadata[field] = customField?.type === 'boolean' ? true : toLane
+  }
+  return { ...task, metadata }
+}
+
+// Droppable IDs for each cell in a swimlane board contain both the lane and the column name
+export const getLaneDroppableId = (lane: string, columnName: string): string => JSON.stringify([lane, columnName])
+
+export const parseLaneDroppableId = (droppableId: string): [string, string] => JSON.parse(droppableId)
@@ -0,0 +1,7 @@
+import { HOUR } from './duration'
+
+// Get the total time logged on a task by its timer, in hours
+export const getTimeLogged = (task: KanbnTask): number => (task.metadata.timeLog ?? []).reduce((total, entry) => {
+  const duration = new Date(entry.end).getTime() - new Date(entry.start).getTime()
+  return isNaN(duration) || duration < 0 ? total : total + duration / HOUR
+}, 0)